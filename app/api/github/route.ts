@@ -1,6 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
-
-const GITHUB_API_BASE = 'https://api.github.com';
+import { GITHUB_REST_API, GITHUB_GRAPHQL_API, isGitHubApiUrl, isGitHubEnterprise } from '@/lib/githubHost';
+import { CONTRIBUTION_CALENDAR_QUERY, isReadOnlyQuery } from '@/lib/githubQueries';
 
 const GITHUB_TOKENS = [
   process.env.GITHUB_TOKEN,
@@ -18,7 +18,7 @@ const getNextToken = (): string | undefined => {
 };
 
 const CACHE_TTL_MS = 5 * 60 * 1000;
-const cache = new Map<string, { data: any; status: number; timestamp: number }>();
+const cache = new Map<string, { data: any; status: number; link: string | null; timestamp: number }>();
 
 const cleanExpiredCache = () => {
   const now = Date.now();
@@ -42,10 +42,13 @@ export async function GET(request: NextRequest) {
     return NextResponse.json({ error: 'Missing endpoint or url parameter' }, { status: 400 });
   }
 
-  const targetUrl = url || `${GITHUB_API_BASE}${endpoint}`;
+  const targetUrl = url || `${GITHUB_REST_API}${endpoint}`;
   const userAuthHeader = request.headers.get('Authorization');
+  // Custom media types change the payload, e.g. star+json adds starred_at to stargazers
+  const requestedAccept = request.headers.get('Accept');
+  const accept = requestedAccept?.startsWith('application/vnd.github') ? requestedAccept : 'application/vnd.github.v3+json';
   
-  const cacheKey = `${targetUrl}:${userAuthHeader || 'public'}`;
+  const cacheKey = `${targetUrl}:${accept}:${userAuthHeader || 'public'}`;
   
   const cached = cache.get(cacheKey);
   if (cached && Date.now() - cached.timestamp < CACHE_TTL_MS) {
@@ -53,17 +56,18 @@ export async function GET(request: NextRequest) {
       status: cached.status,
       headers: { 
         'X-Cache': 'HIT', 
-        'X-Tokens-Available': String(GITHUB_TOKENS.length) 
+        'X-Tokens-Available': String(GITHUB_TOKENS.length),
+        ...(cached.link && { 'Link': cached.link }),
       }
     });
   }
   
   const headers: HeadersInit = {
-    'Accept': 'application/vnd.github.v3+json',
+    'Accept': accept,
     'User-Agent': 'GitStory-2025',
   };
   
-  if (targetUrl.includes('api.github.com')) {
+  if (isGitHubApiUrl(targetUrl)) {
     if (userAuthHeader) {
       headers['Authorization'] = userAuthHeader;
     } else {
@@ -77,9 +81,11 @@ export async function GET(request: NextRequest) {
   try {
     const response = await fetch(targetUrl, { headers });
     const data = await response.json();
+    // Pagination links point at GitHub itself; callers read page numbers from them
+    const link = response.headers.get('Link');
     
     if (response.ok) {
-      cache.set(cacheKey, { data, status: response.status, timestamp: Date.now() });
+      cache.set(cacheKey, { data, status: response.status, link, timestamp: Date.now() });
     }
     
     return NextResponse.json(data, { 
@@ -87,6 +93,7 @@ export async function GET(request: NextRequest) {
       headers: {
         'X-Cache': 'MISS',
         'X-Tokens-Available': String(GITHUB_TOKENS.length),
+        ...(link && { 'Link': link }),
       }
     });
   } catch (error) {
@@ -96,16 +103,27 @@ export async function GET(request: NextRequest) {
 }
 
 export async function POST(request: NextRequest) {
-  const authHeader = request.headers.get('Authorization');
-  
-  if (!authHeader) {
-    return NextResponse.json({ error: 'Authorization required for GraphQL' }, { status: 401 });
-  }
+  const userAuthHeader = request.headers.get('Authorization');
 
   try {
     const body = await request.json();
+
+    if (!isReadOnlyQuery(body?.query)) {
+      return NextResponse.json({ error: 'Only read-only queries are allowed' }, { status: 400 });
+    }
+
+    // The public contributions API only knows github.com, so on GHES the server tokens stand in
+    // for anonymous visitors, but only for the contribution calendar
+    const serverToken = !userAuthHeader && isGitHubEnterprise && body.query === CONTRIBUTION_CALENDAR_QUERY
+      ? getNextToken()
+      : undefined;
+    const authHeader = userAuthHeader || (serverToken ? `Bearer ${serverToken}` : null);
+
+    if (!authHeader) {
+      return NextResponse.json({ error: 'Authorization required for GraphQL' }, { status: 401 });
+    }
     
-    const response = await fetch(`${GITHUB_API_BASE}/graphql`, {
+    const response = await fetch(GITHUB_GRAPHQL_API, {
       method: 'POST',
       headers: {
         'Accept': 'application/vnd.github.v3+json',
@@ -3,10 +3,24 @@
 import { useState, useEffect } from 'react'
 import { useSession, signIn, signOut } from 'next-auth/react'
 import { fetchUserStory } from '@/services/githubService'
-import { fetchGitLabUserStory } from '@/services/gitlabService'
-import { GitStoryData } from '@/types'
+import { normalizeGitLabUrl, GITLAB_URL } from '@/services/gitlabService'
+import { CODEBERG_URL } from '@/services/giteaService'
+import { GIT_LOG_COMMAND, GIT_LOG_BUNDLE_COMMAND } from '@/services/gitLogService'
+import { fetchStory } from '@/services/storyPipeline'
+import { STORY_PROVIDERS, StoryProviderId } from '@/services/storyProviders'
+import { fetchComparisonStory } from '@/services/comparisonService'
+import { fetchVersusStory } from '@/services/versusService'
+import { fetchTeamStory, parseTeamTarget } from '@/services/teamService'
+import { ComparisonStoryData, GitLogSource, GitStoryData, StoryPeriod, StoryRequest, TeamStoryData, VersusStoryData } from '@/types'
 import { StoryContainer } from '@/components/StoryContainer'
-import { Github, Play, Loader2, AlertCircle, Key, ChevronDown, ChevronUp, Lock, RefreshCw, CheckCircle2, XCircle, Sun, Moon, LogOut } from 'lucide-react'
+import { ComparisonStoryContainer } from '@/components/ComparisonStoryContainer'
+import { VersusStoryContainer } from '@/components/VersusStoryContainer'
+import { TeamStoryContainer } from '@/components/TeamStoryContainer'
+import { PeriodPicker } from '@/components/PeriodPicker'
+import { TimeZonePicker } from '@/components/TimeZonePicker'
+import { getDefaultPeriod, getPreviousPeriod } from '@/services/period'
+import { GITHUB_WEB_URL } from '@/lib/githubHost'
+import { Github, Play, Loader2, AlertCircle, Key, ChevronDown, ChevronUp, Lock, RefreshCw, CheckCircle2, XCircle, Sun, Moon, LogOut, GitCompare, Swords, Users, Server, Terminal, Upload } from 'lucide-react'
 import { motion, AnimatePresence } from 'framer-motion'
 import { useTheme } from '@/context/ThemeContext'
 
@@ -16,6 +30,12 @@ const GitLabIcon = ({ size = 14 }: { size?: number }) => (
   </svg>
 )
 
+const BitbucketIcon = ({ size = 14 }: { size?: number }) => (
+  <svg width={size} height={size} viewBox="0 0 24 24" fill="#2684ff">
+    <path d="M.778 1.213a.768.768 0 00-.768.892l3.263 19.81c.084.5.515.868 1.022.873H19.95a.772.772 0 00.77-.646l3.27-20.03a.768.768 0 00-.768-.891zM14.52 15.53H9.522L8.17 8.466h7.561z"/>
+  </svg>
+)
+
 export default function Home() {
   const { data: session } = useSession()
   const { theme, toggleTheme } = useTheme()
@@ -24,9 +44,24 @@ export default function Home() {
   const [showTokenInput, setShowTokenInput] = useState(false)
   const [isLoading, setIsLoading] = useState(false)
   const [storyData, setStoryData] = useState<GitStoryData | null>(null)
+  const [comparisonData, setComparisonData] = useState<ComparisonStoryData | null>(null)
+  const [compareWithPrevious, setCompareWithPrevious] = useState(false)
+  const [versusData, setVersusData] = useState<VersusStoryData | null>(null)
+  const [teamData, setTeamData] = useState<TeamStoryData | null>(null)
+  const [storyMode, setStoryMode] = useState<'solo' | 'versus' | 'team'>('solo')
+  const [forge, setForge] = useState<'github' | 'gitlab' | 'gitea' | 'local'>('github')
+  const [instanceUrl, setInstanceUrl] = useState(CODEBERG_URL)
+  const [gitlabUrl, setGitlabUrl] = useState(GITLAB_URL)
+  const [forgeToken, setForgeToken] = useState('')
+  const [gitLogFiles, setGitLogFiles] = useState<GitLogSource[]>([])
+  const [pastedLog, setPastedLog] = useState('')
+  const [rivalUsername, setRivalUsername] = useState('')
   const [showStory, setShowStory] = useState(false)
   const [error, setError] = useState<{ message: string; type: 'rate_limit' | 'not_found' | 'auth' | 'generic' } | null>(null)
   const [starCount, setStarCount] = useState<number | null>(null)
+  const [period, setPeriod] = useState<StoryPeriod | null>(getDefaultPeriod())
+  const [periodError, setPeriodError] = useState<string | null>(null)
+  const [timeZone, setTimeZone] = useState('')
   
   useEffect(() => {
     fetch('/api/github?endpoint=' + encodeURIComponent('/repos/pankajkumardev/gitstory-2025'))
@@ -36,6 +71,8 @@ export default function Home() {
   }, [])
   
   const effectiveToken = session?.accessToken || token.trim()
+  // GitLab and Bitbucket sessions carry their own forge's token, which must never reach GitHub
+  const githubToken = (session?.provider === 'github' ? session.accessToken : undefined) || token.trim() || undefined
   
   const [tokenStatus, setTokenStatus] = useState<'idle' | 'validating' | 'valid' | 'invalid'>('idle')
   const [tokenUser, setTokenUser] = useState<{ login: string; avatar_url: string } | null>(null)
@@ -80,20 +117,62 @@ export default function Home() {
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault()
-    if (!username) return
+    if (!username || !period) return
+    if (storyMode === 'versus' && !rivalUsername.trim()) return
 
     setIsLoading(true)
     setError(null)
     try {
-      let data: GitStoryData
+      const selectedTimeZone = timeZone || undefined
+      const resolveProvider = (): { providerId: StoryProviderId; request: StoryRequest } => {
+        if (forge === 'local') {
+          const logs = pastedLog.trim() ? [...gitLogFiles, { name: 'local', content: pastedLog }] : gitLogFiles
+          return { providerId: 'local', request: { username, logs, timeZone: selectedTimeZone } }
+        }
+        if (forge === 'gitea') {
+          return { providerId: 'gitea', request: { username: username.trim(), token: forgeToken.trim() || undefined, instanceUrl, timeZone: selectedTimeZone } }
+        }
+        if (forge === 'gitlab') {
+          // The OAuth session only works against the instance this deployment is registered with
+          const sessionToken = session?.provider === 'gitlab' && normalizeGitLabUrl(gitlabUrl) === GITLAB_URL ? session.accessToken : undefined
+          const gitlabToken = forgeToken.trim() || sessionToken
+          if (!gitlabToken) {
+            throw new Error("A GitLab access token is required. Sign in with GitLab or paste a personal access token.")
+          }
+          return { providerId: 'gitlab', request: { username: username.trim(), token: gitlabToken, instanceUrl: gitlabUrl, timeZone: selectedTimeZone } }
+        }
+        // Signing in with another forge switches the default story to that forge
+        if ((session?.provider === 'gitlab' || session?.provider === 'bitbucket') && session?.accessToken) {
+          return { providerId: session.provider, request: { username: username.trim(), token: session.accessToken, timeZone: selectedTimeZone } }
+        }
+        return { providerId: 'github', request: { username: username.trim(), token: effectiveToken || undefined, timeZone: selectedTimeZone } }
+      }
+
+      const { providerId, request } = resolveProvider()
+      const fetchPeriodStory = (storyPeriod: StoryPeriod): Promise<GitStoryData> =>
+        providerId === 'github'
+          ? fetchUserStory(request.username, request.token, storyPeriod, request.timeZone) // Keeps the offline demo profile
+          : fetchStory(STORY_PROVIDERS[providerId], request, storyPeriod)
       
-      if (session?.provider === 'gitlab' && session?.accessToken) {
-        data = await fetchGitLabUserStory(username.trim(), session.accessToken)
+      setStoryData(null)
+      setComparisonData(null)
+      setVersusData(null)
+      setTeamData(null)
+
+      if (storyMode === 'team') {
+        setTeamData(await fetchTeamStory(parseTeamTarget(username), githubToken, period))
+      } else if (storyMode === 'versus') {
+        // Head-to-head always runs on GitHub, where any public profile can be looked up
+        setVersusData(await fetchVersusStory(
+          (login) => fetchUserStory(login, githubToken, period, selectedTimeZone),
+          username,
+          rivalUsername
+        ))
+      } else if (compareWithPrevious) {
+        setComparisonData(await fetchComparisonStory(fetchPeriodStory, period))
       } else {
-        data = await fetchUserStory(username.trim(), effectiveToken || undefined)
+        setStoryData(await fetchPeriodStory(period))
       }
-      
-      setStoryData(data)
       setShowStory(true)
     } catch (err: any) {
       console.error(err)
@@ -152,6 +231,18 @@ export default function Home() {
     }
   }
 
+  if (showStory && teamData) {
+    return <TeamStoryContainer data={teamData} onComplete={() => setShowStory(false)} />
+  }
+
+  if (showStory && versusData) {
+    return <VersusStoryContainer data={versusData} onComplete={() => setShowStory(false)} />
+  }
+
+  if (showStory && comparisonData) {
+    return <ComparisonStoryContainer data={comparisonData} onComplete={() => setShowStory(false)} />
+  }
+
   if (showStory && storyData) {
     return <StoryContainer data={storyData} onComplete={() => setShowStory(false)} />
   }
@@ -201,10 +292,106 @@ export default function Home() {
         <div className="text-center mb-12">
           <Github size={64} className="mx-auto mb-6" />
           <h1 className="text-5xl md:text-7xl font-serif italic mb-2 tracking-tight">GitStory</h1>
-          <p className={`font-sans tracking-widest text-sm uppercase ${isDark ? 'text-neutral-400' : 'text-neutral-500'}`}>Your 2025 Cinematic Wrapped</p>
+          <p className={`font-sans tracking-widest text-sm uppercase ${isDark ? 'text-neutral-400' : 'text-neutral-500'}`}>Your {period?.label || 'Year'} Cinematic Wrapped</p>
         </div>
 
         <form onSubmit={handleSubmit} className="space-y-4">
+          <div className={`flex p-1 rounded-xl border text-xs font-mono ${isDark ? 'bg-neutral-900/50 border-neutral-800' : 'bg-neutral-100 border-neutral-200'}`}>
+            {([
+              { id: 'github', label: 'GitHub', icon: <Github size={12} /> },
+              { id: 'gitlab', label: 'GitLab', icon: <GitLabIcon size={12} /> },
+              { id: 'gitea', label: 'Gitea / Forgejo', icon: <Server size={12} /> },
+              { id: 'local', label: 'Git log', icon: <Terminal size={12} /> },
+            ] as const).map(option => (
+              <button
+                key={option.id}
+                type="button"
+                onClick={() => {
+                  setForge(option.id)
+                  setForgeToken('')
+                  setStoryMode('solo')
+                  if(error) setError(null)
+                }}
+                className={`flex-1 flex items-center justify-center gap-2 py-2 rounded-lg transition-colors ${
+                  forge === option.id
+                    ? isDark ? 'bg-white text-black' : 'bg-black text-white'
+                    : isDark ? 'text-neutral-500 hover:text-neutral-300' : 'text-neutral-400 hover:text-neutral-600'
+                }`}
+              >
+                {option.icon} {option.label}
+              </button>
+            ))}
+          </div>
+
+          <AnimatePresence>
+            {(forge === 'gitlab' || forge === 'gitea') && (
+              <motion.div
+                initial={{ height: 0, opacity: 0 }}
+                animate={{ height: 'auto', opacity: 1 }}
+                exit={{ height: 0, opacity: 0 }}
+                className="overflow-hidden space-y-2"
+              >
+                <input
+                  type="url"
+                  value={forge === 'gitlab' ? gitlabUrl : instanceUrl}
+                  onChange={(e) => forge === 'gitlab' ? setGitlabUrl(e.target.value) : setInstanceUrl(e.target.value)}
+                  placeholder={forge === 'gitlab' ? GITLAB_URL : CODEBERG_URL}
+                  className={`w-full border rounded-lg px-4 py-3 text-sm font-mono text-center focus:outline-none focus:border-hero-blue focus:ring-1 focus:ring-hero-blue transition-all ${isDark ? 'bg-neutral-900/30 border-neutral-800 placeholder:text-neutral-600' : 'bg-neutral-100 border-neutral-200 placeholder:text-neutral-400'}`}
+                />
+                <input
+                  type="password"
+                  value={forgeToken}
+                  onChange={(e) => setForgeToken(e.target.value)}
+                  placeholder={forge === 'gitlab'
+                    ? session?.provider === 'gitlab' ? 'Access token (optional, signed in)' : 'Personal access token (read_api)'
+                    : 'Access token (optional, for private repos)'}
+                  className={`w-full border rounded-lg px-4 py-3 text-sm font-mono text-center focus:outline-none focus:border-hero-purple focus:ring-1 focus:ring-hero-purple transition-all ${isDark ? 'bg-neutral-900/30 border-neutral-800 placeholder:text-neutral-600' : 'bg-neutral-100 border-neutral-200 placeholder:text-neutral-400'}`}
+                />
+              </motion.div>
+            )}
+            {forge === 'local' && (
+              <motion.div
+                initial={{ height: 0, opacity: 0 }}
+                animate={{ height: 'auto', opacity: 1 }}
+                exit={{ height: 0, opacity: 0 }}
+                className="overflow-hidden space-y-2"
+              >
+                <div className={`text-xs p-3 rounded-lg border space-y-2 ${isDark ? 'bg-neutral-900/30 border-neutral-800 text-neutral-400' : 'bg-neutral-100 border-neutral-200 text-neutral-600'}`}>
+                  <p>Run this in a repository, then upload or paste the output. Nothing leaves your browser.</p>
+                  <code className={`block font-mono text-[10px] break-all select-all ${isDark ? 'text-neutral-300' : 'text-neutral-800'}`}>{GIT_LOG_COMMAND} &gt; gitstory.log</code>
+                  <p>Several repos? Run this from their parent folder:</p>
+                  <code className={`block font-mono text-[10px] break-all select-all ${isDark ? 'text-neutral-300' : 'text-neutral-800'}`}>{GIT_LOG_BUNDLE_COMMAND} &gt; gitstory.log</code>
+                </div>
+                <label className={`w-full flex items-center justify-center gap-2 border border-dashed rounded-lg px-4 py-3 text-sm font-mono cursor-pointer transition-colors ${isDark ? 'border-neutral-700 text-neutral-400 hover:border-neutral-500' : 'border-neutral-300 text-neutral-600 hover:border-neutral-500'}`}>
+                  <Upload size={14} />
+                  {gitLogFiles.length > 0 ? gitLogFiles.map(f => f.name).join(', ') : 'Upload log files'}
+                  <input
+                    type="file"
+                    multiple
+                    accept=".log,.txt,text/plain"
+                    className="hidden"
+                    onChange={async (e) => {
+                      const files = Array.from(e.target.files || [])
+                      // Each file counts as one repository unless it carries "### repo:" headers
+                      setGitLogFiles(await Promise.all(files.map(async file => ({
+                        name: file.name.replace(/\.(log|txt)$/i, ''),
+                        content: await file.text()
+                      }))))
+                      if(error) setError(null)
+                    }}
+                  />
+                </label>
+                <textarea
+                  value={pastedLog}
+                  onChange={(e) => setPastedLog(e.target.value)}
+                  placeholder="…or paste git log output here"
+                  rows={4}
+                  className={`w-full border rounded-lg px-4 py-3 text-xs font-mono focus:outline-none focus:border-hero-purple focus:ring-1 focus:ring-hero-purple transition-all ${isDark ? 'bg-neutral-900/30 border-neutral-800 placeholder:text-neutral-600' : 'bg-neutral-100 border-neutral-200 placeholder:text-neutral-400'}`}
+                />
+              </motion.div>
+            )}
+          </AnimatePresence>
+
           <div className="relative group">
             <input
               type="text"
@@ -213,12 +400,106 @@ export default function Home() {
                 setUsername(e.target.value)
                 if(error) setError(null)
               }}
-              placeholder="Enter GitHub Username"
+              placeholder={storyMode === 'team' ? 'Organization or user1, user2' : forge === 'local' ? 'Your git name or email' : forge !== 'github' ? 'Enter Username' : 'Enter GitHub Username'}
               className={`w-full border rounded-xl px-6 py-4 text-xl font-mono text-center focus:outline-none focus:border-hero-blue focus:ring-1 focus:ring-hero-blue transition-all ${isDark ? 'bg-neutral-900/50 border-neutral-800 placeholder:text-neutral-600' : 'bg-neutral-100 border-neutral-200 placeholder:text-neutral-400'}`}
             />
           </div>
 
-          <div className="flex items-center justify-center gap-2">
+          <PeriodPicker
+            onChange={(next, message) => {
+              setPeriod(next)
+              setPeriodError(message || null)
+            }}
+          />
+          {periodError && (
+            <p className="text-xs text-center text-red-400 font-mono">{periodError}</p>
+          )}
+
+          {storyMode !== 'team' && (
+            <TimeZonePicker value={timeZone} onChange={setTimeZone} />
+          )}
+
+          <AnimatePresence>
+            {storyMode === 'versus' && (
+              <motion.div
+                initial={{ height: 0, opacity: 0 }}
+                animate={{ height: 'auto', opacity: 1 }}
+                exit={{ height: 0, opacity: 0 }}
+                className="overflow-hidden"
+              >
+                <input
+                  type="text"
+                  value={rivalUsername}
+                  onChange={(e) => {
+                    setRivalUsername(e.target.value)
+                    if(error) setError(null)
+                  }}
+                  placeholder="Rival GitHub Username"
+                  className={`w-full border rounded-xl px-6 py-3 text-lg font-mono text-center focus:outline-none focus:border-pink-500 focus:ring-1 focus:ring-pink-500 transition-all ${isDark ? 'bg-neutral-900/50 border-neutral-800 placeholder:text-neutral-600' : 'bg-neutral-100 border-neutral-200 placeholder:text-neutral-400'}`}
+                />
+              </motion.div>
+            )}
+          </AnimatePresence>
+
+          {forge === 'github' && storyMode !== 'team' && (
+          <button
+            type="button"
+            onClick={() => {
+              setStoryMode(storyMode === 'versus' ? 'solo' : 'versus')
+              setCompareWithPrevious(false)
+            }}
+            className={`w-full flex items-center justify-center gap-2 text-xs font-mono py-2 transition-colors ${
+              storyMode === 'versus'
+                ? 'text-pink-500'
+                : isDark ? 'text-neutral-500 hover:text-neutral-300' : 'text-neutral-400 hover:text-neutral-600'
+            }`}
+          >
+            <Swords size={12} />
+            {storyMode === 'versus' ? 'Head-to-head on' : 'Go head-to-head with a friend'}
+            {storyMode === 'versus' ? <CheckCircle2 size={12} /> : null}
+          </button>
+          )}
+
+          {forge === 'github' && storyMode !== 'versus' && (
+          <button
+            type="button"
+            onClick={() => {
+              setStoryMode(storyMode === 'team' ? 'solo' : 'team')
+              setCompareWithPrevious(false)
+            }}
+            className={`w-full flex items-center justify-center gap-2 text-xs font-mono py-2 transition-colors ${
+              storyMode === 'team'
+                ? 'text-hero-purple'
+                : isDark ? 'text-neutral-500 hover:text-neutral-300' : 'text-neutral-400 hover:text-neutral-600'
+            }`}
+          >
+            <Users size={12} />
+            {storyMode === 'team' ? 'Team story on' : 'Wrap up an organization or team'}
+            {storyMode === 'team' ? <CheckCircle2 size={12} /> : null}
+          </button>
+          )}
+
+          {storyMode === 'solo' && (
+          <button
+            type="button"
+            onClick={() => setCompareWithPrevious(!compareWithPrevious)}
+            disabled={!period}
+            className={`w-full flex items-center justify-center gap-2 text-xs font-mono py-2 transition-colors disabled:opacity-50 ${
+              compareWithPrevious
+                ? 'text-hero-blue'
+                : isDark ? 'text-neutral-500 hover:text-neutral-300' : 'text-neutral-400 hover:text-neutral-600'
+            }`}
+          >
+            <GitCompare size={12} />
+            {compareWithPrevious && period
+              ? `Comparing with ${getPreviousPeriod(period).label}`
+              : 'Compare with the previous period'}
+            {compareWithPrevious ? <CheckCircle2 size={12} /> : null}
+          </button>
+          )}
+
+          {forge === 'github' && (
+          <div className="flex flex-wrap items-center justify-center gap-2">
             {session ? (
               <div className={`flex items-center gap-2 px-4 py-2 rounded-full text-sm border ${isDark ? 'bg-neutral-900 border-neutral-700 text-neutral-300' : 'bg-neutral-100 border-neutral-200 text-neutral-700'}`}>
                 {session.user?.image && <img src={session.user.image} alt="" className="w-5 h-5 rounded-full" />}
@@ -241,12 +522,20 @@ export default function Home() {
                 >
                   <GitLabIcon size={16} /> GitLab
                 </button>
+                <button
+                  type="button"
+                  onClick={() => signIn('bitbucket')}
+                  className={`flex items-center gap-2 px-5 py-2.5 rounded-full text-sm font-medium transition-all border ${isDark ? 'bg-neutral-950 text-neutral-400 border-neutral-800 hover:bg-neutral-900' : 'bg-white text-neutral-600 border-neutral-200 hover:bg-neutral-100'}`}
+                >
+                  <BitbucketIcon size={16} /> Bitbucket
+                </button>
                 <span className={`text-xs ${isDark ? 'text-neutral-600' : 'text-neutral-400'}`}>for private repos</span>
               </>
             )}
           </div>
+          )}
 
-          {!session && (
+          {!session && forge === 'github' && (
           <div>
             <button
               type="button"
@@ -339,7 +628,7 @@ export default function Home() {
                       <p>
                         Token stays in your browser. Enables: private repos, org repos, 5000 API calls/hr.{' '}
                         <a 
-                          href="https://github.com/settings/tokens/new?scopes=repo,read:org,read:user&description=GitStory%202025" 
+                          href={`${GITHUB_WEB_URL}/settings/tokens/new?scopes=repo,read:org,read:user&description=GitStory%202025`}
                           target="_blank" 
                           rel="noopener noreferrer"
                           className="text-hero-blue hover:underline"
@@ -357,7 +646,7 @@ export default function Home() {
 
           <button
             type="submit"
-            disabled={isLoading || !username}
+            disabled={isLoading || !username || !period || (storyMode === 'versus' && !rivalUsername.trim()) || (forge === 'local' && gitLogFiles.length === 0 && !pastedLog.trim())}
             className={`w-full rounded-xl px-6 py-4 font-bold text-lg transition-all flex items-center justify-center gap-3 disabled:opacity-50 disabled:cursor-not-allowed group ${isDark ? 'bg-white text-black hover:bg-neutral-200' : 'bg-black text-white hover:bg-neutral-800'}`}
           >
             {isLoading ? (
@@ -0,0 +1,32 @@
+'use client'
+
+import React from 'react';
+import { ComparisonStoryData, ComparisonSlideType } from '../types';
+import { StoryPlayer } from './StoryPlayer';
+import { ComparisonTitleSlide } from './slides/comparison/ComparisonTitleSlide';
+import { GrowthSlide } from './slides/comparison/GrowthSlide';
+import { LanguageShiftSlide } from './slides/comparison/LanguageShiftSlide';
+import { RepoShiftSlide } from './slides/comparison/RepoShiftSlide';
+import { ArchetypeShiftSlide } from './slides/comparison/ArchetypeShiftSlide';
+
+interface ComparisonStoryContainerProps {
+  data: ComparisonStoryData;
+  onComplete: () => void;
+}
+
+export const ComparisonStoryContainer: React.FC<ComparisonStoryContainerProps> = ({ data, onComplete }) => {
+  const totalSlides = 5;
+
+  const renderSlide = (slide: number) => {
+    switch (slide) {
+      case ComparisonSlideType.TITLE: return <ComparisonTitleSlide data={data} />;
+      case ComparisonSlideType.GROWTH: return <GrowthSlide data={data} />;
+      case ComparisonSlideType.LANGUAGE_SHIFT: return <LanguageShiftSlide data={data} />;
+      case ComparisonSlideType.REPO_SHIFT: return <RepoShiftSlide data={data} />;
+      case ComparisonSlideType.ARCHETYPE_SHIFT: return <ArchetypeShiftSlide data={data} />;
+      default: return null;
+    }
+  };
+
+  return <StoryPlayer totalSlides={totalSlides} renderSlide={renderSlide} onComplete={onComplete} />;
+};
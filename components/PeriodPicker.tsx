@@ -0,0 +1,115 @@
+'use client'
+
+import React, { useState } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { CalendarRange } from 'lucide-react';
+import { StoryPeriod } from '../types';
+import { createCustomPeriod, getDefaultPeriod, getPeriodYear, getQuarterPeriod, getYearPeriod } from '../services/period';
+import { useTheme } from '@/context/ThemeContext';
+
+type RangeOption = 'year' | 'q1' | 'q2' | 'q3' | 'q4' | 'custom';
+
+const FIRST_YEAR = 2008; // GitHub launched in 2008
+
+interface PeriodPickerProps {
+  onChange: (period: StoryPeriod | null, error?: string) => void;
+}
+
+export const PeriodPicker: React.FC<PeriodPickerProps> = ({ onChange }) => {
+  const { theme } = useTheme();
+  const isDark = theme === 'dark';
+  const defaultYear = getPeriodYear(getDefaultPeriod());
+  const [year, setYear] = useState(defaultYear);
+  const [range, setRange] = useState<RangeOption>('year');
+  const [customStart, setCustomStart] = useState(`${defaultYear}-01-01`);
+  const [customEnd, setCustomEnd] = useState(`${defaultYear}-12-31`);
+  const [customLabel, setCustomLabel] = useState('');
+
+  const currentYear = new Date().getFullYear();
+  const years = Array.from({ length: currentYear - FIRST_YEAR + 1 }, (_, i) => currentYear - i);
+
+  const emit = (next: { year?: number; range?: RangeOption; start?: string; end?: string; label?: string }) => {
+    const y = next.year ?? year;
+    const r = next.range ?? range;
+
+    if (r === 'year') return onChange(getYearPeriod(y));
+    if (r !== 'custom') return onChange(getQuarterPeriod(y, parseInt(r.slice(1), 10) as 1 | 2 | 3 | 4));
+
+    try {
+      onChange(createCustomPeriod(next.start ?? customStart, next.end ?? customEnd, next.label ?? customLabel));
+    } catch (err: any) {
+      onChange(null, err.message);
+    }
+  };
+
+  const selectClass = `border rounded-lg px-3 py-2 text-sm font-mono focus:outline-none focus:border-hero-blue transition-all ${isDark ? 'bg-neutral-900/50 border-neutral-800 text-neutral-300' : 'bg-neutral-100 border-neutral-200 text-neutral-700'}`;
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-center gap-2">
+        <CalendarRange size={14} className={isDark ? 'text-neutral-500' : 'text-neutral-400'} />
+        {range !== 'custom' && (
+          <select
+            value={year}
+            onChange={(e) => { const y = parseInt(e.target.value, 10); setYear(y); emit({ year: y }); }}
+            className={selectClass}
+            aria-label="Year"
+          >
+            {years.map(y => <option key={y} value={y}>{y}</option>)}
+          </select>
+        )}
+        <select
+          value={range}
+          onChange={(e) => { const r = e.target.value as RangeOption; setRange(r); emit({ range: r }); }}
+          className={selectClass}
+          aria-label="Range"
+        >
+          <option value="year">Full year</option>
+          <option value="q1">Q1</option>
+          <option value="q2">Q2</option>
+          <option value="q3">Q3</option>
+          <option value="q4">Q4</option>
+          <option value="custom">Custom range</option>
+        </select>
+      </div>
+
+      <AnimatePresence>
+        {range === 'custom' && (
+          <motion.div
+            initial={{ height: 0, opacity: 0 }}
+            animate={{ height: 'auto', opacity: 1 }}
+            exit={{ height: 0, opacity: 0 }}
+            className="overflow-hidden"
+          >
+            <div className="flex flex-col items-center gap-2 pt-1">
+              <div className="flex items-center justify-center gap-2">
+                <input
+                  type="date"
+                  value={customStart}
+                  onChange={(e) => { setCustomStart(e.target.value); emit({ start: e.target.value }); }}
+                  className={selectClass}
+                  aria-label="Start date"
+                />
+                <span className={`text-xs font-mono ${isDark ? 'text-neutral-600' : 'text-neutral-400'}`}>to</span>
+                <input
+                  type="date"
+                  value={customEnd}
+                  onChange={(e) => { setCustomEnd(e.target.value); emit({ end: e.target.value }); }}
+                  className={selectClass}
+                  aria-label="End date"
+                />
+              </div>
+              <input
+                type="text"
+                value={customLabel}
+                onChange={(e) => { setCustomLabel(e.target.value); emit({ label: e.target.value }); }}
+                placeholder="Label (e.g. Sprint 42, FY2025)"
+                className={`w-full text-center ${selectClass}`}
+              />
+            </div>
+          </motion.div>
+        )}
+      </AnimatePresence>
+    </div>
+  );
+};
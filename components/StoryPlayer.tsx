@@ -0,0 +1,189 @@
+'use client'
+
+import React, { useState, useEffect, useRef, useCallback } from 'react';
+import { AnimatePresence } from 'framer-motion';
+import { SLIDE_DURATION_MS } from '../constants';
+import { X, Sun, Moon, Play, Pause } from 'lucide-react';
+import { useTheme } from '@/context/ThemeContext';
+
+interface StoryPlayerProps {
+  totalSlides: number;
+  renderSlide: (index: number) => React.ReactNode;
+  onComplete: () => void;
+}
+
+// Playback shell shared by every deck: progress bars, timer, tap/keyboard navigation.
+// The last slide is treated as the poster and never auto-advances.
+export const StoryPlayer: React.FC<StoryPlayerProps> = ({ totalSlides, renderSlide, onComplete }) => {
+  const { theme, toggleTheme } = useTheme();
+  const isDark = theme === 'dark';
+  const [currentSlide, setCurrentSlide] = useState(0);
+  const [isPaused, setIsPaused] = useState(false);
+  const progressIntervalRef = useRef<number | null>(null);
+  const [progress, setProgress] = useState(0);
+  
+  const isLastSlide = currentSlide === totalSlides - 1;
+
+  const handleNext = useCallback(() => {
+    if (currentSlide < totalSlides - 1) {
+      setCurrentSlide(prev => prev + 1);
+      setProgress(0);
+    } else {
+      onComplete();
+    }
+  }, [currentSlide, totalSlides, onComplete]);
+
+  const handlePrev = useCallback(() => {
+    if (currentSlide > 0) {
+      setCurrentSlide(prev => prev - 1);
+      setProgress(0);
+    }
+  }, [currentSlide]);
+
+  useEffect(() => {
+    if (isPaused || isLastSlide) return;
+
+    const startTime = Date.now();
+    const startProgress = progress;
+
+    const animateProgress = () => {
+      const elapsed = Date.now() - startTime;
+      const newProgress = Math.min(100, startProgress + (elapsed / SLIDE_DURATION_MS) * 100);
+      
+      setProgress(newProgress);
+
+      if (newProgress < 100) {
+        progressIntervalRef.current = requestAnimationFrame(animateProgress);
+      } else {
+        handleNext();
+      }
+    };
+
+    progressIntervalRef.current = requestAnimationFrame(animateProgress);
+
+    return () => {
+      if (progressIntervalRef.current) cancelAnimationFrame(progressIntervalRef.current);
+    };
+  }, [currentSlide, isPaused, handleNext, isLastSlide]);
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      switch (e.key) {
+        case 'ArrowRight':
+        case 'd':
+        case 'Enter':
+          handleNext();
+          break;
+        case 'ArrowLeft':
+        case 'a':
+          handlePrev();
+          break;
+        case ' ':
+          e.preventDefault();
+          if (isLastSlide) {
+            onComplete();
+          } else {
+            setIsPaused(prev => !prev);
+          }
+          break;
+        case 'Escape':
+          onComplete();
+          break;
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [handleNext, handlePrev, onComplete, isLastSlide]);
+
+  const touchStartX = useRef(0);
+  const longPressTimer = useRef<number | null>(null);
+
+  const handlePointerDown = (e: React.PointerEvent) => {
+    if ((e.target as HTMLElement).closest('button, a, input')) return;
+
+    touchStartX.current = e.clientX;
+    
+    if (!isLastSlide) {
+      setIsPaused(true);
+    }
+    
+    longPressTimer.current = window.setTimeout(() => {
+    }, 200);
+  };
+
+  const handlePointerUp = (e: React.PointerEvent) => {
+    if (longPressTimer.current) clearTimeout(longPressTimer.current);
+    
+    if (!isLastSlide) {
+      setIsPaused(false);
+    }
+
+    if ((e.target as HTMLElement).closest('button, a, input')) return;
+
+    const diff = e.clientX - touchStartX.current;
+    
+    if (Math.abs(diff) < 10) {
+      const screenWidth = window.innerWidth;
+      if (e.clientX < screenWidth / 3) {
+        handlePrev();
+      } else {
+        handleNext();
+      }
+    }
+  };
+
+  return (
+    <div 
+      className={`fixed inset-0 w-full h-[100dvh] select-none cursor-pointer transition-colors ${isDark ? 'bg-black' : 'bg-white'}`}
+      onPointerDown={handlePointerDown}
+      onPointerUp={handlePointerUp}
+      onPointerLeave={() => !isLastSlide && setIsPaused(false)}
+    >
+      <div className="absolute top-4 left-2 right-2 flex gap-1 z-50">
+        {Array.from({ length: totalSlides }).map((_, idx) => (
+          <div key={idx} className={`h-1 flex-1 rounded-full overflow-hidden ${isDark ? 'bg-neutral-800' : 'bg-neutral-300'}`}>
+            <div 
+              className={`h-full transition-all duration-100 ease-linear ${isDark ? 'bg-white' : 'bg-neutral-800'}`}
+              style={{ 
+                width: idx < currentSlide ? '100%' : idx === currentSlide ? (isLastSlide ? '100%' : `${progress}%`) : '0%' 
+              }}
+            />
+          </div>
+        ))}
+      </div>
+
+      <div className="absolute top-8 right-4 z-50 flex items-center gap-1">
+        {!isLastSlide && (
+          <button
+            onClick={(e) => { e.stopPropagation(); setIsPaused(prev => !prev); }}
+            className={`p-2 rounded-lg transition-all active:scale-90 ${isDark ? 'text-white/70 hover:text-white hover:bg-white/10' : 'text-black/70 hover:text-black hover:bg-black/10'}`}
+            aria-label={isPaused ? "Play" : "Pause"}
+          >
+            {isPaused ? <Play size={20} /> : <Pause size={20} />}
+          </button>
+        )}
+        <button
+          onClick={(e) => { e.stopPropagation(); toggleTheme(); }}
+          className={`p-2 rounded-lg transition-all active:scale-90 ${isDark ? 'text-white/70 hover:text-white hover:bg-white/10' : 'text-black/70 hover:text-black hover:bg-black/10'}`}
+          aria-label="Toggle theme"
+        >
+          {isDark ? <Sun size={20} /> : <Moon size={20} />}
+        </button>
+        <button 
+          onClick={(e) => { e.stopPropagation(); onComplete(); }}
+          className={`p-2 rounded-lg transition-all active:scale-90 ${isDark ? 'text-white/70 hover:text-white hover:bg-white/10' : 'text-black/70 hover:text-black hover:bg-black/10'}`}
+          aria-label="Close"
+        >
+          <X size={20} />
+        </button>
+      </div>
+
+      <AnimatePresence mode="popLayout" initial={false}>
+        <div key={currentSlide} className="w-full h-full">
+          {renderSlide(currentSlide)}
+        </div>
+      </AnimatePresence>
+    </div>
+  );
+};
\ No newline at end of file
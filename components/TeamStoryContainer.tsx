@@ -0,0 +1,36 @@
+'use client'
+
+import React from 'react';
+import { TeamStoryData, TeamSlideType } from '../types';
+import { StoryPlayer } from './StoryPlayer';
+import { TeamTitleSlide } from './slides/team/TeamTitleSlide';
+import { TopContributorsSlide } from './slides/team/TopContributorsSlide';
+import { TeamPosterSlide } from './slides/team/TeamPosterSlide';
+import { VelocitySlide } from './slides/VelocitySlide';
+import { GridSlide } from './slides/GridSlide';
+import { LanguagesSlide } from './slides/LanguagesSlide';
+import { TopReposSlide } from './slides/TopReposSlide';
+
+interface TeamStoryContainerProps {
+  data: TeamStoryData;
+  onComplete: () => void;
+}
+
+export const TeamStoryContainer: React.FC<TeamStoryContainerProps> = ({ data, onComplete }) => {
+  const totalSlides = 7;
+
+  const renderSlide = (slide: number) => {
+    switch (slide) {
+      case TeamSlideType.TITLE: return <TeamTitleSlide data={data} />;
+      case TeamSlideType.VELOCITY: return <VelocitySlide data={data.team} />;
+      case TeamSlideType.GRID: return <GridSlide data={data.team} />;
+      case TeamSlideType.LANGUAGES: return <LanguagesSlide data={data.team} />;
+      case TeamSlideType.TOP_REPOS: return <TopReposSlide data={data.team} />;
+      case TeamSlideType.CONTRIBUTORS: return <TopContributorsSlide data={data} />;
+      case TeamSlideType.POSTER: return <TeamPosterSlide data={data} />;
+      default: return null;
+    }
+  };
+
+  return <StoryPlayer totalSlides={totalSlides} renderSlide={renderSlide} onComplete={onComplete} />;
+};
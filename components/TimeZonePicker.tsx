@@ -0,0 +1,39 @@
+'use client'
+
+import React, { useEffect, useState } from 'react';
+import { Globe } from 'lucide-react';
+import { getLocalTimeZone } from '../services/period';
+import { useTheme } from '@/context/ThemeContext';
+
+interface TimeZonePickerProps {
+  value: string; // Empty means each commit's own author time
+  onChange: (timeZone: string) => void;
+}
+
+export const TimeZonePicker: React.FC<TimeZonePickerProps> = ({ value, onChange }) => {
+  const { theme } = useTheme();
+  const isDark = theme === 'dark';
+
+  // The server renders in its own zone, so the list is only filled in once the browser has mounted
+  const [zones, setZones] = useState<string[]>([]);
+  useEffect(() => {
+    const local = getLocalTimeZone();
+    const all = typeof Intl.supportedValuesOf === 'function' ? Intl.supportedValuesOf('timeZone') : [];
+    setZones([local, ...all.filter(zone => zone !== local)]);
+  }, []);
+
+  return (
+    <div className="flex items-center justify-center gap-2">
+      <Globe size={14} className={isDark ? 'text-neutral-500' : 'text-neutral-400'} />
+      <select
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        className={`border rounded-lg px-3 py-2 text-sm font-mono focus:outline-none focus:border-hero-blue transition-all ${isDark ? 'bg-neutral-900/50 border-neutral-800 text-neutral-300' : 'bg-neutral-100 border-neutral-200 text-neutral-700'}`}
+        aria-label="Time zone for hour-of-day stats"
+      >
+        <option value="">Each commit&apos;s local time</option>
+        {zones.map(zone => <option key={zone} value={zone}>{zone.replace(/_/g, ' ')}</option>)}
+      </select>
+    </div>
+  );
+};
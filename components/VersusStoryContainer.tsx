@@ -0,0 +1,34 @@
+'use client'
+
+import React from 'react';
+import { VersusStoryData, VersusSlideType } from '../types';
+import { StoryPlayer } from './StoryPlayer';
+import { VersusTitleSlide } from './slides/versus/VersusTitleSlide';
+import { VersusVelocitySlide } from './slides/versus/VersusVelocitySlide';
+import { VersusRoutineSlide } from './slides/versus/VersusRoutineSlide';
+import { VersusLanguagesSlide } from './slides/versus/VersusLanguagesSlide';
+import { VersusCommunitySlide } from './slides/versus/VersusCommunitySlide';
+import { VersusPosterSlide } from './slides/versus/VersusPosterSlide';
+
+interface VersusStoryContainerProps {
+  data: VersusStoryData;
+  onComplete: () => void;
+}
+
+export const VersusStoryContainer: React.FC<VersusStoryContainerProps> = ({ data, onComplete }) => {
+  const totalSlides = 6;
+
+  const renderSlide = (slide: number) => {
+    switch (slide) {
+      case VersusSlideType.TITLE: return <VersusTitleSlide data={data} />;
+      case VersusSlideType.VELOCITY: return <VersusVelocitySlide data={data} />;
+      case VersusSlideType.ROUTINE: return <VersusRoutineSlide data={data} />;
+      case VersusSlideType.LANGUAGES: return <VersusLanguagesSlide data={data} />;
+      case VersusSlideType.COMMUNITY: return <VersusCommunitySlide data={data} />;
+      case VersusSlideType.POSTER: return <VersusPosterSlide data={data} />;
+      default: return null;
+    }
+  };
+
+  return <StoryPlayer totalSlides={totalSlides} renderSlide={renderSlide} onComplete={onComplete} />;
+};
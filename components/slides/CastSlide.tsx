@@ -0,0 +1,84 @@
+'use client'
+
+import React from 'react';
+import { SlideLayout } from '../SlideLayout';
+import { Collaborator, GitStoryData } from '../../types';
+import { TextReveal } from '../TextReveal';
+import { motion } from 'framer-motion';
+import { useTheme } from '@/context/ThemeContext';
+
+// What each person did in the story, in credit-roll wording
+const getRole = (person: Collaborator) => [
+  person.reviewedYou > 0 && `reviewed you ×${person.reviewedYou}`,
+  person.reviewedByYou > 0 && `reviewed by you ×${person.reviewedByYou}`,
+  person.coAuthored > 0 && `co-wrote ×${person.coAuthored}`,
+].filter(Boolean).join(' · ');
+
+export const CastSlide: React.FC<{ data: GitStoryData }> = ({ data }) => {
+  const { theme } = useTheme();
+  const isDark = theme === 'dark';
+  const cast = data.collaborators || [];
+  if (cast.length === 0) return null;
+
+  return (
+    <SlideLayout gradientStart="#171717" gradientEnd="#000000">
+      <div className="flex-1 flex flex-col justify-center items-center text-center">
+
+        <TextReveal
+          text="Your Cast."
+          className={`text-xl font-mono mb-6 uppercase tracking-widest justify-center ${isDark ? 'text-neutral-400' : 'text-neutral-600'}`}
+        />
+
+        <motion.div
+          initial={{ opacity: 0, y: 30 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ delay: 0.5, duration: 0.8 }}
+          className="mb-6"
+        >
+          <div className={`text-xs uppercase font-mono tracking-widest mb-2 ${isDark ? 'text-neutral-500' : 'text-neutral-600'}`}>Starring</div>
+          <div className="flex items-center justify-center gap-3">
+            <img src={data.avatarUrl} alt={data.username} className="w-10 h-10 rounded-full border border-white/20" />
+            <span className={`text-3xl font-serif italic ${isDark ? 'text-white' : 'text-black'}`}>@{data.username}</span>
+          </div>
+        </motion.div>
+
+        <div className={`text-xs uppercase font-mono tracking-widest mb-3 ${isDark ? 'text-neutral-500' : 'text-neutral-600'}`}>With</div>
+        <div className="grid grid-cols-2 gap-x-6 gap-y-4 w-full max-w-md">
+          {cast.map((person, index) => (
+            <motion.div
+              key={person.login || person.name}
+              initial={{ opacity: 0, y: 30 }}
+              animate={{ opacity: 1, y: 0 }}
+              transition={{ delay: 1.2 + index * 0.2, duration: 0.8 }}
+              className="flex items-center gap-3 text-left min-w-0"
+            >
+              {person.avatarUrl ? (
+                <img src={person.avatarUrl} alt={person.name} className="w-9 h-9 rounded-full shrink-0 border border-white/10" />
+              ) : (
+                <div className={`w-9 h-9 rounded-full shrink-0 flex items-center justify-center font-serif italic ${isDark ? 'bg-white/10 text-white' : 'bg-black/10 text-black'}`}>
+                  {person.name.charAt(0).toUpperCase()}
+                </div>
+              )}
+              <div className="min-w-0">
+                <div className={`text-sm font-bold truncate ${isDark ? 'text-white' : 'text-black'}`}>
+                  {person.login ? `@${person.login}` : person.name}
+                </div>
+                <div className={`text-[10px] font-mono truncate ${isDark ? 'text-neutral-500' : 'text-neutral-600'}`}>{getRole(person)}</div>
+              </div>
+            </motion.div>
+          ))}
+        </div>
+
+        <motion.div
+          initial={{ opacity: 0 }}
+          animate={{ opacity: 1 }}
+          transition={{ delay: 1.6 + cast.length * 0.2 }}
+          className={`mt-8 text-[10px] font-mono uppercase tracking-widest ${isDark ? 'text-neutral-600' : 'text-neutral-500'}`}
+        >
+          Directed by You
+        </motion.div>
+
+      </div>
+    </SlideLayout>
+  );
+};
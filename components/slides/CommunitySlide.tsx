@@ -5,13 +5,16 @@ import { SlideLayout } from '../SlideLayout';
 import { GitStoryData } from '../../types';
 import { TextReveal } from '../TextReveal';
 import { motion } from 'framer-motion';
-import { Users, Star } from 'lucide-react';
+import { Users, Star, TrendingUp } from 'lucide-react';
 import { useTheme } from '@/context/ThemeContext';
 
 export const CommunitySlide: React.FC<{ data: GitStoryData }> = ({ data }) => {
   const { theme } = useTheme();
   const isDark = theme === 'dark';
   const { community } = data;
+  const growth = community.starGrowth;
+  const risingRepo = growth?.byRepo[0];
+  const busiestMonth = Math.max(1, ...(growth?.byMonth || []).map(m => m.count));
 
   return (
     <SlideLayout gradientStart="#be123c" gradientEnd="#881337">
@@ -47,9 +50,38 @@ export const CommunitySlide: React.FC<{ data: GitStoryData }> = ({ data }) => {
             >
                 <div className={`flex items-center gap-4 mb-2 ${isDark ? 'text-white' : 'text-black'}`}>
                     <Star size={48} className="text-yellow-400" />
-                    <span className="text-7xl font-serif italic font-bold">{community.totalStars.toLocaleString()}</span>
+                    <span className="text-7xl font-serif italic font-bold">
+                        {growth ? `+${growth.total.toLocaleString()}${growth.isPartial ? '+' : ''}` : community.totalStars.toLocaleString()}
+                    </span>
                 </div>
-                <span className={`font-mono tracking-widest uppercase text-sm ${isDark ? 'text-neutral-400' : 'text-neutral-600'}`}>Stars Earned</span>
+                <span className={`font-mono tracking-widest uppercase text-sm ${isDark ? 'text-neutral-400' : 'text-neutral-600'}`}>
+                    {growth ? `Stars gained in ${data.period.label}` : 'Stars Earned'}
+                </span>
+                {growth && (
+                    <>
+                        <div className="flex items-end gap-1 h-8 mt-4">
+                            {growth.byMonth.map((month, index) => (
+                                <motion.div
+                                    key={month.month}
+                                    initial={{ height: 0 }}
+                                    animate={{ height: `${Math.max(4, (month.count / busiestMonth) * 100)}%` }}
+                                    transition={{ delay: 1.4 + index * 0.05 }}
+                                    className={`w-2 rounded-sm ${month.count > 0 ? 'bg-yellow-400' : isDark ? 'bg-white/10' : 'bg-black/10'}`}
+                                    title={`${month.month}: ${month.count}`}
+                                />
+                            ))}
+                        </div>
+                        <span className={`mt-3 text-xs font-mono ${isDark ? 'text-neutral-500' : 'text-neutral-600'}`}>
+                            {community.totalStars.toLocaleString()} lifetime
+                        </span>
+                        {risingRepo && (
+                            <span className={`mt-1 flex items-center gap-2 text-sm font-mono ${isDark ? 'text-neutral-300' : 'text-neutral-700'}`}>
+                                <TrendingUp size={14} className="text-yellow-400" />
+                                Fastest rising: {risingRepo.repo.split('/').pop()} (+{risingRepo.count.toLocaleString()})
+                            </span>
+                        )}
+                    </>
+                )}
             </motion.div>
 
         </div>
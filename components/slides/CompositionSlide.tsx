@@ -18,6 +18,7 @@ export const CompositionSlide: React.FC<{ data: GitStoryData }> = ({ data }) =>
     { name: 'PRs', value: contributionBreakdown.prs, color: '#8B5CF6' },
     { name: 'Issues', value: contributionBreakdown.issues, color: '#EAB308' },
     { name: 'Reviews', value: contributionBreakdown.reviews, color: '#EC4899' },
+    { name: 'Private', value: contributionBreakdown.private || 0, color: '#6B7280' },
   ].filter(d => d.value > 0);
 
   return (
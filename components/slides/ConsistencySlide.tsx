@@ -0,0 +1,94 @@
+'use client'
+
+import React from 'react';
+import { SlideLayout } from '../SlideLayout';
+import { GitStoryData } from '../../types';
+import { TextReveal } from '../TextReveal';
+import { motion } from 'framer-motion';
+import { Activity, CalendarDays, CalendarRange, CalendarCheck, Coffee, Gauge, Zap } from 'lucide-react';
+import { useTheme } from '@/context/ThemeContext';
+
+const formatDay = (date: string) =>
+  new Date(`${date}T00:00:00Z`).toLocaleDateString('en-US', { month: 'short', day: 'numeric', timeZone: 'UTC' });
+
+const formatMonth = (month: string) =>
+  new Date(`${month}-01T00:00:00Z`).toLocaleDateString('en-US', { month: 'long', timeZone: 'UTC' });
+
+const plural = (count: number, word: string) => `${count.toLocaleString()} ${count === 1 ? word : `${word}s`}`;
+
+export const ConsistencySlide: React.FC<{ data: GitStoryData }> = ({ data }) => {
+  const { theme } = useTheme();
+  const isDark = theme === 'dark';
+  const stats = data.calendarStats;
+  if (!stats) return null;
+  const streak = stats.longestStreak;
+
+  const cards = [
+    { label: 'Still going', icon: <Activity size={16} className="text-emerald-400" />, value: plural(stats.currentStreak, 'day'), detail: 'at period end' },
+    { label: 'Longest break', icon: <Coffee size={16} className="text-amber-400" />, value: stats.longestBreak ? plural(stats.longestBreak.days, 'day') : 'None', detail: stats.longestBreak ? `${formatDay(stats.longestBreak.start)} – ${formatDay(stats.longestBreak.end)}` : 'Never stopped' },
+    { label: 'Best day', icon: <Zap size={16} className="text-code-yellow" />, value: stats.bestDay ? stats.bestDay.count.toLocaleString() : '0', detail: stats.bestDay ? formatDay(stats.bestDay.date) : '—' },
+    { label: 'Best week', icon: <CalendarDays size={16} className="text-hero-blue" />, value: stats.bestWeek ? stats.bestWeek.count.toLocaleString() : '0', detail: stats.bestWeek ? `Week of ${formatDay(stats.bestWeek.start)}` : '—' },
+    { label: 'Best month', icon: <CalendarRange size={16} className="text-hero-purple" />, value: stats.bestMonth ? stats.bestMonth.count.toLocaleString() : '0', detail: stats.bestMonth ? formatMonth(stats.bestMonth.month) : '—' },
+    { label: 'Active days', icon: <CalendarCheck size={16} className="text-emerald-400" />, value: stats.activeDays.toLocaleString(), detail: `${stats.averagePerActiveDay} per active day` },
+  ];
+
+  return (
+    <SlideLayout gradientStart="#f97316" gradientEnd="#7c2d12">
+      <div className="flex-1 flex flex-col justify-center">
+
+        <div className="mb-8 text-center">
+          <TextReveal
+            text="The Consistency."
+            className={`text-xl font-mono mb-4 uppercase tracking-widest justify-center ${isDark ? 'text-neutral-400' : 'text-neutral-600'}`}
+          />
+          <TextReveal
+            text={streak ? `${plural(streak.days, 'day')} in a row.` : 'Every day is a fresh start.'}
+            className={`text-5xl font-serif italic justify-center ${isDark ? 'text-white' : 'text-black'}`}
+            highlight={streak ? plural(streak.days, 'day') : undefined}
+            delay={0.5}
+          />
+          {streak && (
+            <motion.p
+              initial={{ opacity: 0 }}
+              animate={{ opacity: 1 }}
+              transition={{ delay: 1.2 }}
+              className={`mt-3 text-sm font-mono ${isDark ? 'text-neutral-400' : 'text-neutral-600'}`}
+            >
+              {formatDay(streak.start)} – {formatDay(streak.end)}
+            </motion.p>
+          )}
+        </div>
+
+        <div className="grid grid-cols-2 gap-3 w-full max-w-md mx-auto">
+          {cards.map((card, index) => (
+            <motion.div
+              key={card.label}
+              initial={{ opacity: 0, y: 20 }}
+              animate={{ opacity: 1, y: 0 }}
+              transition={{ delay: 1.4 + (index * 0.12) }}
+              className={`rounded-xl p-3 border backdrop-blur-sm ${isDark ? 'bg-white/5 border-white/10' : 'bg-black/5 border-black/10'}`}
+            >
+              <div className={`flex items-center gap-2 text-xs font-mono uppercase ${isDark ? 'text-neutral-400' : 'text-neutral-600'}`}>
+                {card.icon}
+                {card.label}
+              </div>
+              <div className={`mt-1 text-2xl font-bold ${isDark ? 'text-white' : 'text-black'}`}>{card.value}</div>
+              <div className={`text-xs font-mono ${isDark ? 'text-neutral-500' : 'text-neutral-600'}`}>{card.detail}</div>
+            </motion.div>
+          ))}
+        </div>
+
+        <motion.div
+          initial={{ opacity: 0 }}
+          animate={{ opacity: 1 }}
+          transition={{ delay: 2.4 }}
+          className={`mt-6 flex items-center justify-center gap-2 text-xs font-mono uppercase tracking-widest ${isDark ? 'text-neutral-500' : 'text-neutral-600'}`}
+        >
+          <Gauge size={12} />
+          Showing up is the whole trick
+        </motion.div>
+
+      </div>
+    </SlideLayout>
+  );
+};
@@ -11,7 +11,18 @@ export const GridSlide: React.FC<{ data: GitStoryData }> = ({ data }) => {
   const { theme } = useTheme();
   const isDark = theme === 'dark';
   
-  const displayData = data.velocityData.slice(-140);
+  // Columns are Sunday-to-Saturday weeks like GitHub's graph, ending with the week of the last day
+  const WEEKS = 20;
+  const lastDay = data.velocityData[data.velocityData.length - 1]?.isoDate;
+  const trailingDays = lastDay ? 6 - new Date(`${lastDay}T00:00:00Z`).getUTCDay() : 0;
+  const recentDays = data.velocityData.slice(-(WEEKS * 7 - trailingDays));
+  const leadingDays = WEEKS * 7 - trailingDays - recentDays.length;
+  const displayData: ({ date: string; commits: number } | null)[] = [
+    ...Array(leadingDays).fill(null),
+    ...recentDays,
+    ...Array(trailingDays).fill(null),
+  ];
+  const busiestDay = Math.max(1, ...recentDays.map(d => d.commits));
   
   return (
     <SlideLayout gradientStart="#10b981" gradientEnd="#064e3b">
@@ -23,27 +34,28 @@ export const GridSlide: React.FC<{ data: GitStoryData }> = ({ data }) => {
                 className={`text-4xl font-serif mb-2 ${isDark ? 'text-white' : 'text-black'}`} 
             />
              <TextReveal 
-                text={`${data.totalCommits} contributions made.`} 
+                text={`${data.totalContributions} contributions made.`} 
                 className="text-xl font-mono text-emerald-400" 
-                highlight={`${data.totalCommits}`}
+                highlight={`${data.totalContributions}`}
                 delay={0.5}
             />
         </div>
 
         <div className={`relative p-4 rounded-2xl border shadow-2xl backdrop-blur-sm overflow-hidden ${isDark ? 'bg-neutral-900/50 border-white/10' : 'bg-neutral-100/50 border-black/10'}`}>
             <div className="flex gap-1">
-                {Array.from({ length: 20 }).map((_, weekIndex) => (
+                {Array.from({ length: WEEKS }).map((_, weekIndex) => (
                     <div key={weekIndex} className="flex flex-col gap-1">
                         {Array.from({ length: 7 }).map((_, dayIndex) => {
                             const dataIndex = weekIndex * 7 + dayIndex;
-                            const commitCount = displayData[dataIndex]?.commits || 0;
+                            const day = displayData[dataIndex];
+                            const commitCount = day?.commits || 0;
                             
                             let bgClass = isDark ? "bg-neutral-800" : "bg-neutral-300";
                             let opacity = 0.3;
                             
                             if (commitCount > 0) {
                                 bgClass = "bg-emerald-500";
-                                opacity = Math.min(0.4 + (commitCount / 10), 1);
+                                opacity = 0.4 + 0.6 * (commitCount / busiestDay);
                             }
 
                             return (
@@ -58,7 +70,8 @@ export const GridSlide: React.FC<{ data: GitStoryData }> = ({ data }) => {
                                         damping: 20
                                     }}
                                     className={`w-3 h-3 md:w-4 md:h-4 rounded-sm ${bgClass}`}
-                                    style={{ opacity: commitCount > 0 ? opacity : 0.2, boxShadow: commitCount > 5 ? '0 0 8px #10b981' : 'none' }}
+                                    style={{ opacity: !day ? 0 : commitCount > 0 ? opacity : 0.2, boxShadow: commitCount > 5 ? '0 0 8px #10b981' : 'none' }}
+                                    title={day ? `${day.date}: ${commitCount} ${commitCount === 1 ? 'contribution' : 'contributions'}` : undefined}
                                 />
                             );
                         })}
@@ -0,0 +1,88 @@
+'use client'
+
+import React from 'react';
+import { SlideLayout } from '../SlideLayout';
+import { GitStoryData } from '../../types';
+import { TextReveal } from '../TextReveal';
+import { motion } from 'framer-motion';
+import { GitMerge, Star } from 'lucide-react';
+import { useTheme } from '@/context/ThemeContext';
+import { LANGUAGE_COLORS } from '../../constants';
+
+export const GuestStarSlide: React.FC<{ data: GitStoryData }> = ({ data }) => {
+  const { theme } = useTheme();
+  const isDark = theme === 'dark';
+  const guestRepos = data.guestRepos || [];
+  if (guestRepos.length === 0) return null;
+
+  const totalMerged = guestRepos.reduce((sum, repo) => sum + repo.mergedPullRequests, 0);
+
+  return (
+    <SlideLayout gradientStart="#0d9488" gradientEnd="#042f2e">
+      <div className="flex-1 flex flex-col justify-center">
+
+        <div className="mb-8 text-center">
+          <TextReveal
+            text="Guest Star."
+            className={`text-xl font-mono mb-4 uppercase tracking-widest justify-center ${isDark ? 'text-neutral-400' : 'text-neutral-600'}`}
+          />
+          <TextReveal
+            text={`${totalMerged} PRs merged upstream.`}
+            className={`text-4xl font-serif italic justify-center ${isDark ? 'text-white' : 'text-black'}`}
+            highlight={`${totalMerged}`}
+            delay={0.5}
+          />
+          <TextReveal
+            text="Other people's projects, better because of you."
+            className={`mt-2 text-sm font-sans justify-center ${isDark ? 'text-neutral-400' : 'text-neutral-600'}`}
+            delay={0.9}
+          />
+        </div>
+
+        <div className="space-y-3 max-w-md mx-auto w-full">
+          {guestRepos.map((repo, index) => (
+            <motion.a
+              key={repo.name}
+              href={repo.url}
+              target="_blank"
+              rel="noopener noreferrer"
+              initial={{ opacity: 0, x: -30 }}
+              animate={{ opacity: 1, x: 0 }}
+              transition={{ delay: 1.2 + index * 0.15, type: "spring", damping: 20 }}
+              className={`flex items-center gap-3 p-3 rounded-xl border ${isDark ? 'bg-neutral-900/60 border-neutral-800' : 'bg-neutral-100/60 border-neutral-200'}`}
+            >
+              {repo.ownerAvatarUrl ? (
+                <img src={repo.ownerAvatarUrl} alt={repo.name.split('/')[0]} className="w-9 h-9 rounded-lg flex-shrink-0" />
+              ) : (
+                <div className={`w-9 h-9 rounded-lg flex-shrink-0 ${isDark ? 'bg-white/10' : 'bg-black/10'}`} />
+              )}
+
+              <div className="flex-1 min-w-0">
+                <div className="flex items-center gap-2">
+                  <h3 className={`font-bold truncate ${isDark ? 'text-neutral-200' : 'text-neutral-800'}`}>{repo.name}</h3>
+                  {repo.language && (
+                    <div
+                      className="w-2 h-2 rounded-full flex-shrink-0"
+                      style={{ backgroundColor: LANGUAGE_COLORS[repo.language] || '#A3A3A3' }}
+                      title={repo.language}
+                    />
+                  )}
+                </div>
+                <div className={`flex items-center gap-1 text-xs font-mono ${isDark ? 'text-neutral-500' : 'text-neutral-600'}`}>
+                  <Star size={12} className="text-yellow-500" />
+                  {repo.stars.toLocaleString()}
+                </div>
+              </div>
+
+              <div className="flex items-center gap-1 flex-shrink-0">
+                <GitMerge size={14} className="text-hero-purple" />
+                <span className={`font-mono text-sm ${isDark ? 'text-neutral-300' : 'text-neutral-700'}`}>{repo.mergedPullRequests}</span>
+              </div>
+            </motion.a>
+          ))}
+        </div>
+
+      </div>
+    </SlideLayout>
+  );
+};
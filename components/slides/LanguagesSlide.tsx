@@ -11,13 +11,14 @@ export const LanguagesSlide: React.FC<{ data: GitStoryData }> = ({ data }) => {
   const { theme } = useTheme();
   const isDark = theme === 'dark';
   const topLang = data.topLanguages[0];
+  const namedLanguages = data.topLanguages.filter(lang => !lang.isOther);
 
   return (
     <SlideLayout gradientStart={topLang.color} gradientEnd="#000000">
       <div className="flex-1 flex flex-col justify-center relative">
         
         <div className="absolute inset-0 z-0 pointer-events-none">
-          {data.topLanguages.map((lang, i) => (
+          {namedLanguages.slice(0, 3).map((lang, i) => (
             <motion.div
               key={lang.name}
               initial={{ scale: 0, x: 0, y: 0 }}
@@ -52,7 +53,19 @@ export const LanguagesSlide: React.FC<{ data: GitStoryData }> = ({ data }) => {
             delay={0.5}
           />
 
-          <div className="flex flex-col gap-4 items-center">
+          <div className={`flex w-full max-w-xs mx-auto h-2 rounded-full overflow-hidden mb-8 ${isDark ? 'bg-neutral-800' : 'bg-neutral-300'}`}>
+            {data.topLanguages.map((lang, i) => (
+              <motion.div
+                key={lang.name}
+                initial={{ width: 0 }}
+                animate={{ width: `${lang.percentage}%` }}
+                transition={{ delay: 1.2 + (i * 0.1), duration: 0.6 }}
+                style={{ backgroundColor: lang.color }}
+              />
+            ))}
+          </div>
+
+          <div className="flex flex-col gap-3 items-center">
             {data.topLanguages.map((lang, i) => (
               <motion.div 
                 key={lang.name}
@@ -65,7 +78,9 @@ export const LanguagesSlide: React.FC<{ data: GitStoryData }> = ({ data }) => {
                   className="w-3 h-3 rounded-full shadow-[0_0_10px_currentColor]" 
                   style={{ backgroundColor: lang.color, color: lang.color }}
                 />
-                <span className={`text-xl font-sans ${isDark ? 'text-white' : 'text-black'}`}>{lang.name}</span>
+                <span className={`text-xl font-sans ${lang.isOther ? (isDark ? 'text-neutral-400' : 'text-neutral-600') : (isDark ? 'text-white' : 'text-black')}`}>
+                  {lang.isOther ? `Other (${lang.count})` : lang.name}
+                </span>
                 <div className={`flex-1 h-px mx-2 ${isDark ? 'bg-neutral-800' : 'bg-neutral-300'}`} />
                 <span className={`font-mono ${isDark ? 'text-neutral-400' : 'text-neutral-600'}`}>{lang.percentage}%</span>
               </motion.div>
@@ -0,0 +1,97 @@
+'use client'
+
+import React from 'react';
+import { SlideLayout } from '../SlideLayout';
+import { GitStoryData } from '../../types';
+import { TextReveal } from '../TextReveal';
+import { motion } from 'framer-motion';
+import { TrendingUp, Moon } from 'lucide-react';
+import { useTheme } from '@/context/ThemeContext';
+
+const formatMonth = (month: string, style: 'short' | 'long') =>
+  new Date(`${month}-01T00:00:00Z`).toLocaleDateString('en-US', { month: style, timeZone: 'UTC' });
+
+export const MonthlySlide: React.FC<{ data: GitStoryData }> = ({ data }) => {
+  const { theme } = useTheme();
+  const isDark = theme === 'dark';
+  const months = data.calendarStats?.monthlyTotals || [];
+  if (months.length === 0) return null;
+
+  const busiest = Math.max(1, ...months.map(m => m.count));
+  const strongest = months.reduce((best, m) => (m.count > best.count ? m : best), months[0]);
+  const quietest = months.reduce((low, m) => (m.count < low.count ? m : low), months[0]);
+  const hasQuietest = months.length > 1 && quietest.month !== strongest.month;
+
+  // Bars fill in calendar order so the year plays back like a race
+  const step = Math.min(0.25, 2.4 / months.length);
+
+  return (
+    <SlideLayout gradientStart="#0ea5e9" gradientEnd="#1e3a8a">
+      <div className="flex-1 flex flex-col justify-center">
+
+        <div className="mb-6 text-center">
+          <TextReveal
+            text="Month by Month."
+            className={`text-xl font-mono mb-4 uppercase tracking-widest justify-center ${isDark ? 'text-neutral-400' : 'text-neutral-600'}`}
+          />
+          <TextReveal
+            text={`${formatMonth(strongest.month, 'long')} was your month.`}
+            className={`text-4xl font-serif italic justify-center ${isDark ? 'text-white' : 'text-black'}`}
+            highlight={formatMonth(strongest.month, 'long')}
+            delay={0.5}
+          />
+        </div>
+
+        <div className="flex flex-col gap-1.5 w-full max-w-md mx-auto">
+          {months.map((month, index) => {
+            const isStrongest = month.month === strongest.month;
+            const isQuietest = hasQuietest && month.month === quietest.month;
+            return (
+              <div key={month.month} className="flex items-center gap-3">
+                <span className={`w-8 text-xs font-mono uppercase ${isDark ? 'text-neutral-400' : 'text-neutral-600'}`}>
+                  {formatMonth(month.month, 'short')}
+                </span>
+                <div className={`flex-1 h-4 rounded-full overflow-hidden ${isDark ? 'bg-white/5' : 'bg-black/5'}`}>
+                  <motion.div
+                    initial={{ width: 0 }}
+                    animate={{ width: `${Math.max(month.count > 0 ? 2 : 0, (month.count / busiest) * 100)}%` }}
+                    transition={{ delay: 1 + index * step, duration: 0.6, ease: 'easeOut' }}
+                    className={`h-full rounded-full ${isStrongest ? 'bg-code-yellow' : isQuietest ? 'bg-neutral-500' : 'bg-sky-400'}`}
+                    style={{ boxShadow: isStrongest ? '0 0 12px #EAB308' : 'none' }}
+                  />
+                </div>
+                <motion.span
+                  initial={{ opacity: 0 }}
+                  animate={{ opacity: 1 }}
+                  transition={{ delay: 1.4 + index * step }}
+                  className={`w-12 text-right text-xs font-mono ${isDark ? 'text-white' : 'text-black'}`}
+                >
+                  {month.count.toLocaleString()}
+                </motion.span>
+              </div>
+            );
+          })}
+        </div>
+
+        <motion.div
+          initial={{ opacity: 0, y: 10 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ delay: 1.6 + months.length * step }}
+          className={`mt-6 flex flex-col items-center gap-2 text-sm font-mono ${isDark ? 'text-neutral-300' : 'text-neutral-700'}`}
+        >
+          <div className="flex items-center gap-2">
+            <TrendingUp size={14} className="text-code-yellow" />
+            Strongest: {formatMonth(strongest.month, 'long')}, {strongest.count.toLocaleString()} contributions
+          </div>
+          {hasQuietest && (
+            <div className="flex items-center gap-2">
+              <Moon size={14} className="text-neutral-400" />
+              Quietest: {formatMonth(quietest.month, 'long')}, {quietest.count.toLocaleString()} contributions
+            </div>
+          )}
+        </motion.div>
+
+      </div>
+    </SlideLayout>
+  );
+};
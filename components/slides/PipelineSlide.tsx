@@ -0,0 +1,110 @@
+'use client'
+
+import React from 'react';
+import { SlideLayout } from '../SlideLayout';
+import { GitStoryData } from '../../types';
+import { TextReveal } from '../TextReveal';
+import { motion } from 'framer-motion';
+import { Cpu, Flame, Workflow } from 'lucide-react';
+import { useTheme } from '@/context/ThemeContext';
+import { formatHours } from '../../services/activityAnalytics';
+
+const RADIUS = 54;
+const CIRCUMFERENCE = 2 * Math.PI * RADIUS;
+
+export const PipelineSlide: React.FC<{ data: GitStoryData }> = ({ data }) => {
+  const { theme } = useTheme();
+  const isDark = theme === 'dark';
+  const stats = data.pipeline;
+  if (!stats || stats.runs === 0) return null;
+
+  const cardClass = `rounded-xl p-3 border backdrop-blur-sm ${isDark ? 'bg-white/5 border-white/10' : 'bg-black/5 border-black/10'}`;
+  const labelClass = `flex items-center gap-2 text-xs font-mono uppercase mb-1 ${isDark ? 'text-neutral-400' : 'text-neutral-600'}`;
+
+  return (
+    <SlideLayout gradientStart="#475569" gradientEnd="#0f172a">
+      <div className="flex-1 flex flex-col justify-center">
+
+        <div className="mb-6 text-center">
+          <TextReveal
+            text="The Pipeline."
+            className={`text-xl font-mono mb-4 uppercase tracking-widest justify-center ${isDark ? 'text-neutral-400' : 'text-neutral-600'}`}
+          />
+          <TextReveal
+            text={`${stats.runs.toLocaleString()} runs kicked off.`}
+            className={`text-4xl font-serif italic justify-center ${isDark ? 'text-white' : 'text-black'}`}
+            highlight={stats.runs.toLocaleString()}
+            delay={0.5}
+          />
+        </div>
+
+        <div className="relative w-36 h-36 mx-auto mb-6">
+          <svg viewBox="0 0 128 128" className="w-full h-full -rotate-90">
+            <circle cx="64" cy="64" r={RADIUS} fill="none" strokeWidth="10" className={isDark ? 'stroke-white/10' : 'stroke-black/10'} />
+            <motion.circle
+              cx="64"
+              cy="64"
+              r={RADIUS}
+              fill="none"
+              strokeWidth="10"
+              strokeLinecap="round"
+              className="stroke-emerald-400"
+              strokeDasharray={CIRCUMFERENCE}
+              initial={{ strokeDashoffset: CIRCUMFERENCE }}
+              animate={{ strokeDashoffset: CIRCUMFERENCE * (1 - stats.successRate / 100) }}
+              transition={{ delay: 1, duration: 1.2, ease: 'easeOut' }}
+            />
+          </svg>
+          <div className="absolute inset-0 flex flex-col items-center justify-center">
+            <span className={`text-3xl font-bold font-mono ${isDark ? 'text-white' : 'text-black'}`}>{stats.successRate}%</span>
+            <span className={`text-[10px] font-mono uppercase ${isDark ? 'text-neutral-400' : 'text-neutral-600'}`}>green</span>
+          </div>
+        </div>
+
+        <div className="grid grid-cols-2 gap-3 w-full max-w-md mx-auto">
+          <motion.div initial={{ opacity: 0, y: 20 }} animate={{ opacity: 1, y: 0 }} transition={{ delay: 1.8 }} className={cardClass}>
+            <div className={labelClass}>
+              <Cpu size={14} className="text-hero-blue" />
+              Compute
+            </div>
+            <div className={`text-2xl font-bold ${isDark ? 'text-white' : 'text-black'}`}>{formatHours(stats.minutes / 60)}</div>
+            <div className={`text-xs font-mono ${isDark ? 'text-neutral-500' : 'text-neutral-600'}`}>
+              {stats.isSampled ? 'in your latest runs' : 'of runner time'}
+            </div>
+          </motion.div>
+
+          <motion.div initial={{ opacity: 0, y: 20 }} animate={{ opacity: 1, y: 0 }} transition={{ delay: 1.95 }} className={cardClass}>
+            <div className={labelClass}>
+              <Flame size={14} className="text-red-400" />
+              Most failed
+            </div>
+            {stats.mostFailed ? (
+              <>
+                <div className={`text-sm font-bold truncate ${isDark ? 'text-white' : 'text-black'}`}>{stats.mostFailed.workflow}</div>
+                <div className={`text-xs font-mono truncate ${isDark ? 'text-neutral-500' : 'text-neutral-600'}`}>
+                  {stats.mostFailed.failures} × in {stats.mostFailed.repo.split('/').pop()}
+                </div>
+              </>
+            ) : (
+              <div className={`text-sm font-bold ${isDark ? 'text-white' : 'text-black'}`}>Nothing. Ever.</div>
+            )}
+          </motion.div>
+
+          <motion.div initial={{ opacity: 0, y: 20 }} animate={{ opacity: 1, y: 0 }} transition={{ delay: 2.1 }} className={`col-span-2 ${cardClass}`}>
+            <div className={labelClass}>
+              <Workflow size={14} className="text-hero-purple" />
+              Busiest pipelines
+            </div>
+            {stats.repos.map(repo => (
+              <div key={repo.repo} className="flex justify-between gap-2 text-xs font-mono">
+                <span className={`truncate ${isDark ? 'text-white' : 'text-black'}`}>{repo.repo}</span>
+                <span className={isDark ? 'text-neutral-400' : 'text-neutral-600'}>{repo.count.toLocaleString()}</span>
+              </div>
+            ))}
+          </motion.div>
+        </div>
+
+      </div>
+    </SlideLayout>
+  );
+};
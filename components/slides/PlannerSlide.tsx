@@ -0,0 +1,95 @@
+'use client'
+
+import React from 'react';
+import { SlideLayout } from '../SlideLayout';
+import { GitStoryData } from '../../types';
+import { TextReveal } from '../TextReveal';
+import { motion } from 'framer-motion';
+import { CircleDot, CheckCircle2, Home, Tag, Timer } from 'lucide-react';
+import { useTheme } from '@/context/ThemeContext';
+import { formatHours } from '../../services/activityAnalytics';
+
+export const PlannerSlide: React.FC<{ data: GitStoryData }> = ({ data }) => {
+  const { theme } = useTheme();
+  const isDark = theme === 'dark';
+  const stats = data.contributionBreakdown.issueStats;
+  if (!stats) return null;
+
+  const cards = [
+    { label: 'Closed', icon: <CheckCircle2 size={16} className="text-hero-purple" />, value: stats.closed.toLocaleString(), detail: `${stats.open.toLocaleString()} still open` },
+    { label: 'Time to close', icon: <Timer size={16} className="text-code-yellow" />, value: stats.medianHoursToClose === null ? '—' : formatHours(stats.medianHoursToClose), detail: 'median' },
+    ...(stats.closedInOwnRepos !== null ? [
+      { label: 'Your repos', icon: <Home size={16} className="text-emerald-400" />, value: stats.closedInOwnRepos.toLocaleString(), detail: 'issues you closed' },
+    ] : []),
+  ];
+
+  return (
+    <SlideLayout gradientStart="#ca8a04" gradientEnd="#422006">
+      <div className="flex-1 flex flex-col justify-center">
+
+        <div className="mb-8 text-center">
+          <TextReveal
+            text="The Planner."
+            className={`text-xl font-mono mb-4 uppercase tracking-widest justify-center ${isDark ? 'text-neutral-400' : 'text-neutral-600'}`}
+          />
+          <TextReveal
+            text={`${stats.opened.toLocaleString()} issues filed.`}
+            className={`text-5xl font-serif italic justify-center ${isDark ? 'text-white' : 'text-black'}`}
+            highlight={stats.opened.toLocaleString()}
+            delay={0.5}
+          />
+          {data.archetype === 'The Planner' && (
+            <motion.div
+              initial={{ opacity: 0, scale: 0.8 }}
+              animate={{ opacity: 1, scale: 1 }}
+              transition={{ delay: 1.2 }}
+              className="mt-4 inline-flex items-center gap-2 px-3 py-1 rounded-full bg-code-yellow/20 text-code-yellow text-xs font-mono uppercase tracking-widest"
+            >
+              <CircleDot size={12} />
+              Your archetype
+            </motion.div>
+          )}
+        </div>
+
+        <div className={`grid gap-3 w-full max-w-md mx-auto ${cards.length === 3 ? 'grid-cols-3' : 'grid-cols-2'}`}>
+          {cards.map((card, index) => (
+            <motion.div
+              key={card.label}
+              initial={{ opacity: 0, y: 20 }}
+              animate={{ opacity: 1, y: 0 }}
+              transition={{ delay: 1.4 + (index * 0.12) }}
+              className={`rounded-xl p-3 border backdrop-blur-sm ${isDark ? 'bg-white/5 border-white/10' : 'bg-black/5 border-black/10'}`}
+            >
+              <div className={`flex items-center gap-2 text-xs font-mono uppercase ${isDark ? 'text-neutral-400' : 'text-neutral-600'}`}>
+                {card.icon}
+                {card.label}
+              </div>
+              <div className={`mt-1 text-2xl font-bold ${isDark ? 'text-white' : 'text-black'}`}>{card.value}</div>
+              <div className={`text-xs font-mono ${isDark ? 'text-neutral-500' : 'text-neutral-600'}`}>{card.detail}</div>
+            </motion.div>
+          ))}
+        </div>
+
+        {stats.topLabels.length > 0 && (
+          <motion.div
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            transition={{ delay: 2 }}
+            className="mt-6 flex flex-wrap items-center justify-center gap-2"
+          >
+            <Tag size={14} className={isDark ? 'text-neutral-400' : 'text-neutral-600'} />
+            {stats.topLabels.map(label => (
+              <span
+                key={label.name}
+                className={`px-3 py-1 rounded-full border text-xs font-mono ${isDark ? 'border-white/10 bg-white/5 text-white' : 'border-black/10 bg-black/5 text-black'}`}
+              >
+                {label.name} <span className={isDark ? 'text-neutral-400' : 'text-neutral-600'}>×{label.count}</span>
+              </span>
+            ))}
+          </motion.div>
+        )}
+
+      </div>
+    </SlideLayout>
+  );
+};
@@ -8,6 +8,7 @@ import confetti from 'canvas-confetti';
 import { Download, Check, Loader2, AlertTriangle, Share2, X } from 'lucide-react';
 import { toPng } from 'html-to-image';
 import { useTheme } from '@/context/ThemeContext';
+import { getPeriodSlug } from '@/services/period';
 
 const TwitterIcon = () => (
   <svg width="18" height="18" viewBox="0 0 24 24" fill="currentColor">
@@ -43,7 +44,7 @@ export const PosterSlide: React.FC<{ data: GitStoryData }> = ({ data }) => {
   const [copied, setCopied] = useState(false);
   const posterRef = useRef<HTMLDivElement>(null);
   
-  const shareText = `My GitHub Wrapped 2025:\n\n${data.totalCommits} commits\n${data.topLanguages[0]?.name || 'Code'} mastery\n${data.community.totalStars} stars earned\n\nCheck out your GitStory too!`;
+  const shareText = `My GitHub Wrapped ${data.period.label}:\n\n${data.totalCommits} commits\n${data.topLanguages[0]?.name || 'Code'} mastery\n${data.community.totalStars} stars earned\n\nCheck out your GitStory too!`;
   const shareUrl = 'https://gitstory.pankajk.tech/';
 
   const shareLinks = [
@@ -112,7 +113,7 @@ export const PosterSlide: React.FC<{ data: GitStoryData }> = ({ data }) => {
       });
 
       const link = document.createElement('a');
-      link.download = `gitstory-${data.username}-${data.year}.png`;
+      link.download = `gitstory-${data.username}-${getPeriodSlug(data.period)}.png`;
       link.href = dataUrl;
       link.click();
     } catch (err) {
@@ -163,7 +164,7 @@ export const PosterSlide: React.FC<{ data: GitStoryData }> = ({ data }) => {
             />
             <div className="text-right">
                <h1 className={`text-3xl font-serif italic ${isDark ? 'text-white' : 'text-black'}`}>GitStory</h1>
-               <div className={`text-xl font-mono tracking-tighter ${isDark ? 'text-neutral-500' : 'text-neutral-600'}`}>2025</div>
+               <div className={`text-xl font-mono tracking-tighter ${isDark ? 'text-neutral-500' : 'text-neutral-600'}`}>{data.period.label}</div>
             </div>
           </div>
 
@@ -20,6 +20,10 @@ export const ProductivitySlide: React.FC<{ data: GitStoryData }> = ({ data }) =>
     return <Moon size={100} className="text-blue-200" />;
   };
 
+  const hourlyCounts = productivity.hourlyCounts || [];
+  const busiestHour = Math.max(...hourlyCounts, 0);
+  const clockLabel = productivity.timeZone ? productivity.timeZone.replace(/_/g, ' ') : "each commit's local time";
+
   const gradientStart = productivity.timeOfDay === "Morning" ? "#fdba74" : 
                         productivity.timeOfDay === "Afternoon" ? "#facc15" : 
                         productivity.timeOfDay === "Evening" ? "#818cf8" : "#1e3a8a";
@@ -60,6 +64,38 @@ export const ProductivitySlide: React.FC<{ data: GitStoryData }> = ({ data }) =>
             <Clock size={20} className={isDark ? 'text-white/70' : 'text-black/70'} />
             <span className={`text-xl font-mono ${isDark ? 'text-white' : 'text-black'}`}>Peak: {productivity.peakHour}:00</span>
         </div>
+
+        {busiestHour > 0 && (
+            <motion.div
+                initial={{ opacity: 0 }}
+                animate={{ opacity: 1 }}
+                transition={{ delay: 1.2 }}
+                className="w-full max-w-md mt-8"
+            >
+                <div className="flex items-end gap-[3px] h-20">
+                    {hourlyCounts.map((count, hour) => (
+                        <motion.div
+                            key={hour}
+                            initial={{ height: 0 }}
+                            animate={{ height: `${Math.max((count / busiestHour) * 100, count > 0 ? 4 : 1)}%` }}
+                            transition={{ delay: 1.2 + hour * 0.03, duration: 0.5 }}
+                            className={`flex-1 rounded-t-sm ${hour === productivity.peakHour ? (isDark ? 'bg-white' : 'bg-black') : (isDark ? 'bg-white/30' : 'bg-black/20')}`}
+                            title={`${hour}:00 - ${count}`}
+                        />
+                    ))}
+                </div>
+                <div className={`flex justify-between mt-2 text-[10px] font-mono ${isDark ? 'text-neutral-400' : 'text-neutral-600'}`}>
+                    <span>0:00</span>
+                    <span>6:00</span>
+                    <span>12:00</span>
+                    <span>18:00</span>
+                    <span>23:00</span>
+                </div>
+                <p className={`mt-1 text-[10px] font-mono uppercase tracking-widest ${isDark ? 'text-neutral-500' : 'text-neutral-600'}`}>
+                    Based on {productivity.isPartial ? 'a sample of ' : ''}{hourlyCounts.reduce((sum, c) => sum + c, 0).toLocaleString()} timestamps, in {clockLabel}
+                </p>
+            </motion.div>
+        )}
         
         <motion.div 
             initial={{ opacity: 0, y: 20 }}
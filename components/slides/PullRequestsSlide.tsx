@@ -0,0 +1,131 @@
+'use client'
+
+import React from 'react';
+import { SlideLayout } from '../SlideLayout';
+import { GitStoryData } from '../../types';
+import { TextReveal } from '../TextReveal';
+import { motion } from 'framer-motion';
+import { GitMerge, GitPullRequest, GitPullRequestClosed, Timer, Maximize2 } from 'lucide-react';
+import { useTheme } from '@/context/ThemeContext';
+import { formatHours } from '../../services/activityAnalytics';
+
+export const PullRequestsSlide: React.FC<{ data: GitStoryData }> = ({ data }) => {
+  const { theme } = useTheme();
+  const isDark = theme === 'dark';
+  const stats = data.pullRequests;
+  if (!stats || stats.opened === 0) return null;
+
+  const outcomes = [
+    { label: 'Merged', value: stats.merged, color: '#8B5CF6', icon: <GitMerge size={16} className="text-hero-purple" /> },
+    { label: 'Closed', value: stats.closed, color: '#EF4444', icon: <GitPullRequestClosed size={16} className="text-red-400" /> },
+    { label: 'Open', value: stats.open, color: '#10B981', icon: <GitPullRequest size={16} className="text-emerald-400" /> },
+  ];
+
+  return (
+    <SlideLayout gradientStart="#6d28d9" gradientEnd="#2e1065">
+      <div className="flex-1 flex flex-col justify-center">
+
+        <div className="mb-6 text-center">
+          <TextReveal
+            text="The Pull Requests."
+            className={`text-xl font-mono mb-4 uppercase tracking-widest justify-center ${isDark ? 'text-neutral-400' : 'text-neutral-600'}`}
+          />
+          <TextReveal
+            text={`${stats.mergeRate}% made it in.`}
+            className={`text-5xl font-serif italic justify-center ${isDark ? 'text-white' : 'text-black'}`}
+            highlight={`${stats.mergeRate}%`}
+            delay={0.5}
+          />
+          <motion.p
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            transition={{ delay: 1.2 }}
+            className={`mt-3 text-sm font-mono ${isDark ? 'text-neutral-400' : 'text-neutral-600'}`}
+          >
+            {stats.opened.toLocaleString()} opened in {data.period.label}
+          </motion.p>
+        </div>
+
+        <div className="w-full max-w-md mx-auto">
+          <div className={`flex h-3 rounded-full overflow-hidden mb-3 ${isDark ? 'bg-white/5' : 'bg-black/5'}`}>
+            {outcomes.filter(o => o.value > 0).map((outcome, index) => (
+              <motion.div
+                key={outcome.label}
+                initial={{ width: 0 }}
+                animate={{ width: `${(outcome.value / stats.opened) * 100}%` }}
+                transition={{ delay: 1.4 + index * 0.2, duration: 0.6 }}
+                style={{ backgroundColor: outcome.color }}
+              />
+            ))}
+          </div>
+          <div className="grid grid-cols-3 gap-3 mb-3">
+            {outcomes.map(outcome => (
+              <div key={outcome.label} className={`flex items-center gap-2 text-xs font-mono uppercase ${isDark ? 'text-neutral-400' : 'text-neutral-600'}`}>
+                {outcome.icon}
+                {outcome.label}
+                <span className={`ml-auto font-bold ${isDark ? 'text-white' : 'text-black'}`}>{outcome.value.toLocaleString()}</span>
+              </div>
+            ))}
+          </div>
+
+          <div className="grid grid-cols-2 gap-3">
+            <motion.div
+              initial={{ opacity: 0, y: 20 }}
+              animate={{ opacity: 1, y: 0 }}
+              transition={{ delay: 2 }}
+              className={`rounded-xl p-3 border backdrop-blur-sm ${isDark ? 'bg-white/5 border-white/10' : 'bg-black/5 border-black/10'}`}
+            >
+              <div className={`flex items-center gap-2 text-xs font-mono uppercase ${isDark ? 'text-neutral-400' : 'text-neutral-600'}`}>
+                <Timer size={16} className="text-code-yellow" />
+                Median merge
+              </div>
+              <div className={`mt-1 text-2xl font-bold ${isDark ? 'text-white' : 'text-black'}`}>
+                {stats.medianHoursToMerge === null ? '—' : formatHours(stats.medianHoursToMerge)}
+              </div>
+              <div className={`text-xs font-mono ${isDark ? 'text-neutral-500' : 'text-neutral-600'}`}>from open to merged</div>
+            </motion.div>
+
+            <motion.div
+              initial={{ opacity: 0, y: 20 }}
+              animate={{ opacity: 1, y: 0 }}
+              transition={{ delay: 2.15 }}
+              className={`rounded-xl p-3 border backdrop-blur-sm ${isDark ? 'bg-white/5 border-white/10' : 'bg-black/5 border-black/10'}`}
+            >
+              <div className={`text-xs font-mono uppercase mb-1 ${isDark ? 'text-neutral-400' : 'text-neutral-600'}`}>Most PRs in</div>
+              {stats.topRepos.map(repo => (
+                <div key={repo.repo} className="flex justify-between gap-2 text-xs font-mono">
+                  <span className={`truncate ${isDark ? 'text-white' : 'text-black'}`}>{repo.repo.split('/').pop()}</span>
+                  <span className={isDark ? 'text-neutral-400' : 'text-neutral-600'}>{repo.count}</span>
+                </div>
+              ))}
+            </motion.div>
+          </div>
+
+          {stats.largest && (
+            <motion.a
+              href={stats.largest.url}
+              target="_blank"
+              rel="noopener noreferrer"
+              initial={{ opacity: 0, y: 20 }}
+              animate={{ opacity: 1, y: 0 }}
+              transition={{ delay: 2.3 }}
+              className={`block mt-3 rounded-xl p-3 border backdrop-blur-sm ${isDark ? 'bg-white/5 border-white/10' : 'bg-black/5 border-black/10'}`}
+            >
+              <div className={`flex items-center gap-2 text-xs font-mono uppercase ${isDark ? 'text-neutral-400' : 'text-neutral-600'}`}>
+                <Maximize2 size={16} className="text-hero-blue" />
+                Biggest PR
+                <span className="ml-auto normal-case">
+                  <span className="text-emerald-400">+{stats.largest.additions.toLocaleString()}</span>{' '}
+                  <span className="text-red-400">−{stats.largest.deletions.toLocaleString()}</span>
+                </span>
+              </div>
+              <div className={`mt-1 text-sm font-bold truncate ${isDark ? 'text-white' : 'text-black'}`}>{stats.largest.title}</div>
+              <div className={`text-xs font-mono truncate ${isDark ? 'text-neutral-500' : 'text-neutral-600'}`}>{stats.largest.repo}</div>
+            </motion.a>
+          )}
+        </div>
+
+      </div>
+    </SlideLayout>
+  );
+};
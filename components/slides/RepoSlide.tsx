@@ -7,6 +7,7 @@ import { TextReveal } from '../TextReveal';
 import { motion } from 'framer-motion';
 import { Star, GitCommit } from 'lucide-react';
 import { useTheme } from '@/context/ThemeContext';
+import { isFullYear } from '@/services/period';
 
 export const RepoSlide: React.FC<{ data: GitStoryData }> = ({ data }) => {
   const { theme } = useTheme();
@@ -18,7 +19,7 @@ export const RepoSlide: React.FC<{ data: GitStoryData }> = ({ data }) => {
         
         <div className="mb-10 text-center">
           <TextReveal 
-            text="But one project defined your year." 
+            text={`But one project defined your ${isFullYear(data.period) ? 'year' : data.period.label}.`} 
             className={`text-3xl font-serif ${isDark ? 'text-neutral-200' : 'text-neutral-800'}`} 
           />
         </div>
@@ -39,10 +40,17 @@ export const RepoSlide: React.FC<{ data: GitStoryData }> = ({ data }) => {
           </div>
 
           <div className="space-y-3">
-             <div className="flex items-center gap-2 text-code-yellow">
-                <Star size={18} fill="currentColor" />
-                <span className="font-mono text-lg">{data.topRepo.stars.toLocaleString()} Stars</span>
-             </div>
+             {data.topRepo.commits !== undefined ? (
+                <div className="flex items-center gap-2 text-hero-blue">
+                   <GitCommit size={18} />
+                   <span className="font-mono text-lg">{data.topRepo.commits.toLocaleString()} Commits</span>
+                </div>
+             ) : (
+                <div className="flex items-center gap-2 text-code-yellow">
+                   <Star size={18} fill="currentColor" />
+                   <span className="font-mono text-lg">{data.topRepo.stars.toLocaleString()} Stars</span>
+                </div>
+             )}
              <div className={`flex items-center gap-2 ${isDark ? 'text-neutral-400' : 'text-neutral-600'}`}>
                 <GitCommit size={18} />
                 <span className="font-mono text-sm">{data.topRepo.language}</span>
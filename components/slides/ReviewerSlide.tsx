@@ -0,0 +1,119 @@
+'use client'
+
+import React from 'react';
+import { SlideLayout } from '../SlideLayout';
+import { GitStoryData } from '../../types';
+import { TextReveal } from '../TextReveal';
+import { motion } from 'framer-motion';
+import { CheckCircle2, MessageSquare, MessagesSquare, RotateCcw, Timer } from 'lucide-react';
+import { useTheme } from '@/context/ThemeContext';
+import { formatHours } from '../../services/activityAnalytics';
+
+export const ReviewerSlide: React.FC<{ data: GitStoryData }> = ({ data }) => {
+  const { theme } = useTheme();
+  const isDark = theme === 'dark';
+  const stats = data.reviews;
+  if (!stats || stats.total === 0) return null;
+
+  const verdicts = [
+    { label: 'Approved', value: stats.approved, color: '#10B981', icon: <CheckCircle2 size={16} className="text-emerald-400" /> },
+    { label: 'Changes', value: stats.changesRequested, color: '#F59E0B', icon: <RotateCcw size={16} className="text-amber-400" /> },
+    { label: 'Comments', value: stats.commented, color: '#EC4899', icon: <MessageSquare size={16} className="text-pink-400" /> },
+  ];
+
+  const cardClass = `rounded-xl p-3 border backdrop-blur-sm ${isDark ? 'bg-white/5 border-white/10' : 'bg-black/5 border-black/10'}`;
+  const labelClass = `flex items-center gap-2 text-xs font-mono uppercase ${isDark ? 'text-neutral-400' : 'text-neutral-600'}`;
+
+  return (
+    <SlideLayout gradientStart="#db2777" gradientEnd="#500724">
+      <div className="flex-1 flex flex-col justify-center">
+
+        <div className="mb-6 text-center">
+          <TextReveal
+            text="The Reviewer."
+            className={`text-xl font-mono mb-4 uppercase tracking-widest justify-center ${isDark ? 'text-neutral-400' : 'text-neutral-600'}`}
+          />
+          <TextReveal
+            text={`${stats.pullRequestsReviewed.toLocaleString()} PRs got your eyes.`}
+            className={`text-4xl font-serif italic justify-center ${isDark ? 'text-white' : 'text-black'}`}
+            highlight={stats.pullRequestsReviewed.toLocaleString()}
+            delay={0.5}
+          />
+        </div>
+
+        <div className="w-full max-w-md mx-auto">
+          <div className="grid grid-cols-3 gap-3 mb-3">
+            {verdicts.map((verdict, index) => (
+              <motion.div
+                key={verdict.label}
+                initial={{ opacity: 0, y: 20 }}
+                animate={{ opacity: 1, y: 0 }}
+                transition={{ delay: 1.2 + index * 0.12 }}
+                className={cardClass}
+              >
+                <div className={labelClass}>
+                  {verdict.icon}
+                  {verdict.label}
+                </div>
+                <div className={`mt-1 text-2xl font-bold ${isDark ? 'text-white' : 'text-black'}`}>{verdict.value.toLocaleString()}</div>
+                <div className={`mt-2 h-1 rounded-full overflow-hidden ${isDark ? 'bg-white/10' : 'bg-black/10'}`}>
+                  <motion.div
+                    initial={{ width: 0 }}
+                    animate={{ width: `${(verdict.value / stats.total) * 100}%` }}
+                    transition={{ delay: 1.6 + index * 0.12, duration: 0.6 }}
+                    className="h-full"
+                    style={{ backgroundColor: verdict.color }}
+                  />
+                </div>
+              </motion.div>
+            ))}
+          </div>
+
+          <div className="grid grid-cols-2 gap-3 mb-3">
+            <motion.div initial={{ opacity: 0, y: 20 }} animate={{ opacity: 1, y: 0 }} transition={{ delay: 1.9 }} className={cardClass}>
+              <div className={labelClass}>
+                <MessagesSquare size={16} className="text-hero-blue" />
+                Comments left
+              </div>
+              <div className={`mt-1 text-2xl font-bold ${isDark ? 'text-white' : 'text-black'}`}>{stats.comments.toLocaleString()}</div>
+            </motion.div>
+            <motion.div initial={{ opacity: 0, y: 20 }} animate={{ opacity: 1, y: 0 }} transition={{ delay: 2.05 }} className={cardClass}>
+              <div className={labelClass}>
+                <Timer size={16} className="text-code-yellow" />
+                First review
+              </div>
+              <div className={`mt-1 text-2xl font-bold ${isDark ? 'text-white' : 'text-black'}`}>
+                {stats.medianHoursToFirstReview === null ? '—' : formatHours(stats.medianHoursToFirstReview)}
+              </div>
+              <div className={`text-xs font-mono ${isDark ? 'text-neutral-500' : 'text-neutral-600'}`}>median after being asked</div>
+            </motion.div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-3">
+            {[
+              { title: 'Reviewed most for', rows: stats.topAuthors.map(a => ({ key: a.login, label: `@${a.login}`, count: a.count })) },
+              { title: 'Reviewed most in', rows: stats.topRepos.map(r => ({ key: r.repo, label: r.repo.split('/').pop(), count: r.count })) },
+            ].map((list, index) => (
+              <motion.div
+                key={list.title}
+                initial={{ opacity: 0, y: 20 }}
+                animate={{ opacity: 1, y: 0 }}
+                transition={{ delay: 2.2 + index * 0.15 }}
+                className={cardClass}
+              >
+                <div className={`text-xs font-mono uppercase mb-1 ${isDark ? 'text-neutral-400' : 'text-neutral-600'}`}>{list.title}</div>
+                {list.rows.map(row => (
+                  <div key={row.key} className="flex justify-between gap-2 text-xs font-mono">
+                    <span className={`truncate ${isDark ? 'text-white' : 'text-black'}`}>{row.label}</span>
+                    <span className={isDark ? 'text-neutral-400' : 'text-neutral-600'}>{row.count}</span>
+                  </div>
+                ))}
+              </motion.div>
+            ))}
+          </div>
+        </div>
+
+      </div>
+    </SlideLayout>
+  );
+};
@@ -0,0 +1,137 @@
+'use client'
+
+import React from 'react';
+import { SlideLayout } from '../SlideLayout';
+import { GitStoryData } from '../../types';
+import { TextReveal } from '../TextReveal';
+import { motion } from 'framer-motion';
+import { Download, Package, Rocket, Tag } from 'lucide-react';
+import { useTheme } from '@/context/ThemeContext';
+import { getPeriodEnd, getPeriodStart } from '../../services/period';
+
+const formatDay = (date: string) =>
+  new Date(date).toLocaleDateString('en-US', { month: 'short', day: 'numeric', timeZone: 'UTC' });
+
+export const ShippedSlide: React.FC<{ data: GitStoryData }> = ({ data }) => {
+  const { theme } = useTheme();
+  const isDark = theme === 'dark';
+  const stats = data.shipping;
+  if (!stats || stats.timeline.length === 0) return null;
+
+  const start = getPeriodStart(data.period).getTime();
+  const span = Math.max(1, getPeriodEnd(data.period).getTime() - start);
+  const position = (date: string) => Math.min(100, Math.max(0, ((new Date(date).getTime() - start) / span) * 100));
+  const first = stats.timeline[0];
+  const last = stats.timeline[stats.timeline.length - 1];
+
+  return (
+    <SlideLayout gradientStart="#16a34a" gradientEnd="#052e16">
+      <div className="flex-1 flex flex-col justify-center">
+
+        <div className="mb-8 text-center">
+          <TextReveal
+            text="Shipped."
+            className={`text-xl font-mono mb-4 uppercase tracking-widest justify-center ${isDark ? 'text-neutral-400' : 'text-neutral-600'}`}
+          />
+          <TextReveal
+            text={stats.releases > 0 ? `${stats.releases} releases out the door.` : `${stats.tags} versions tagged.`}
+            className={`text-4xl font-serif italic justify-center ${isDark ? 'text-white' : 'text-black'}`}
+            highlight={`${stats.releases > 0 ? stats.releases : stats.tags}`}
+            delay={0.5}
+          />
+          {stats.releases > 0 && stats.tags > 0 && (
+            <TextReveal
+              text={`Plus ${stats.tags} tags without release notes.`}
+              className={`mt-2 text-sm font-sans justify-center ${isDark ? 'text-neutral-400' : 'text-neutral-600'}`}
+              delay={0.9}
+            />
+          )}
+        </div>
+
+        <div className="w-full max-w-md mx-auto">
+          <div className="relative h-10 mb-2">
+            <motion.div
+              initial={{ scaleX: 0 }}
+              animate={{ scaleX: 1 }}
+              transition={{ delay: 1, duration: 0.8 }}
+              style={{ originX: 0 }}
+              className={`absolute top-1/2 left-0 right-0 h-px ${isDark ? 'bg-white/20' : 'bg-black/20'}`}
+            />
+            {stats.timeline.map((entry, index) => (
+              <motion.div
+                key={`${entry.repo}@${entry.tag}`}
+                initial={{ scale: 0 }}
+                animate={{ scale: 1 }}
+                transition={{ delay: 1.4 + (position(entry.date) / 100) * 1.2, type: "spring", stiffness: 300, damping: 15 }}
+                className={`absolute top-1/2 w-3 h-3 -mt-1.5 -ml-1.5 rounded-full ${entry.isRelease ? 'bg-emerald-400 shadow-[0_0_8px_#34d399]' : `border-2 border-emerald-400 ${isDark ? 'bg-neutral-900' : 'bg-white'}`}`}
+                style={{ left: `${position(entry.date)}%`, zIndex: index }}
+                title={`${entry.repo} ${entry.tag}, ${formatDay(entry.date)}`}
+              />
+            ))}
+          </div>
+          <div className={`flex justify-between text-[10px] font-mono uppercase mb-6 ${isDark ? 'text-neutral-500' : 'text-neutral-600'}`}>
+            <span>First: {formatDay(first.date)}</span>
+            <span>Latest: {formatDay(last.date)}</span>
+          </div>
+
+          <div className="grid grid-cols-2 gap-3">
+            <motion.div
+              initial={{ opacity: 0, y: 20 }}
+              animate={{ opacity: 1, y: 0 }}
+              transition={{ delay: 2.6 }}
+              className={`rounded-xl p-3 border backdrop-blur-sm ${isDark ? 'bg-white/5 border-white/10' : 'bg-black/5 border-black/10'}`}
+            >
+              <div className={`flex items-center gap-2 text-xs font-mono uppercase mb-1 ${isDark ? 'text-neutral-400' : 'text-neutral-600'}`}>
+                <Rocket size={14} className="text-emerald-400" />
+                Shipped from
+              </div>
+              {stats.repos.map(repo => (
+                <div key={repo.repo} className="flex justify-between gap-2 text-xs font-mono">
+                  <span className={`truncate ${isDark ? 'text-white' : 'text-black'}`}>{repo.repo.split('/').pop()}</span>
+                  <span className={isDark ? 'text-neutral-400' : 'text-neutral-600'}>{repo.count}</span>
+                </div>
+              ))}
+            </motion.div>
+
+            <motion.div
+              initial={{ opacity: 0, y: 20 }}
+              animate={{ opacity: 1, y: 0 }}
+              transition={{ delay: 2.75 }}
+              className={`rounded-xl p-3 border backdrop-blur-sm ${isDark ? 'bg-white/5 border-white/10' : 'bg-black/5 border-black/10'}`}
+            >
+              {stats.topAssets.length > 0 ? (
+                <>
+                  <div className={`flex items-center gap-2 text-xs font-mono uppercase mb-1 ${isDark ? 'text-neutral-400' : 'text-neutral-600'}`}>
+                    <Download size={14} className="text-hero-blue" />
+                    Most downloaded
+                  </div>
+                  {stats.topAssets.map(asset => (
+                    <div key={`${asset.repo}@${asset.tag}/${asset.name}`} className="flex justify-between gap-2 text-xs font-mono">
+                      <span className={`truncate ${isDark ? 'text-white' : 'text-black'}`} title={`${asset.repo} ${asset.tag}`}>{asset.name}</span>
+                      <span className={isDark ? 'text-neutral-400' : 'text-neutral-600'}>{asset.downloads.toLocaleString()}</span>
+                    </div>
+                  ))}
+                </>
+              ) : (
+                <>
+                  <div className={`flex items-center gap-2 text-xs font-mono uppercase mb-1 ${isDark ? 'text-neutral-400' : 'text-neutral-600'}`}>
+                    <Package size={14} className="text-hero-blue" />
+                    Versions
+                  </div>
+                  <div className={`flex items-center gap-2 text-xs font-mono ${isDark ? 'text-white' : 'text-black'}`}>
+                    <Tag size={12} />
+                    {last.tag}
+                  </div>
+                  {stats.prereleases > 0 && (
+                    <div className={`text-xs font-mono ${isDark ? 'text-neutral-500' : 'text-neutral-600'}`}>{stats.prereleases} pre-releases</div>
+                  )}
+                </>
+              )}
+            </motion.div>
+          </div>
+        </div>
+
+      </div>
+    </SlideLayout>
+  );
+};
@@ -7,10 +7,12 @@ import { SlideLayout } from '../SlideLayout';
 import { GitStoryData } from '../../types';
 import { TextReveal } from '../TextReveal';
 import { useTheme } from '@/context/ThemeContext';
+import { isFullYear } from '@/services/period';
 
 export const TitleSlide: React.FC<{ data: GitStoryData }> = ({ data }) => {
   const { theme } = useTheme();
   const isDark = theme === 'dark';
+  const fullYear = isFullYear(data.period);
 
   return (
     <SlideLayout gradientStart="#3B82F6" gradientEnd="#000000">
@@ -26,13 +28,13 @@ export const TitleSlide: React.FC<{ data: GitStoryData }> = ({ data }) => {
         </motion.div>
 
         <TextReveal 
-          text={`${data.year}.`} 
-          className={`text-8xl font-serif mb-4 tracking-tighter ${isDark ? 'text-white' : 'text-black'}`} 
+          text={fullYear ? `${data.year}.` : `${data.period.label}.`} 
+          className={`${fullYear ? 'text-8xl' : 'text-5xl'} font-serif mb-4 tracking-tighter justify-center ${isDark ? 'text-white' : 'text-black'}`} 
           delay={0.5} 
         />
         
         <TextReveal 
-          text="The year you wrote history." 
+          text={fullYear ? "The year you wrote history." : "Another chapter of your history."} 
           className={`text-2xl font-sans max-w-xs mx-auto ${isDark ? 'text-neutral-400' : 'text-neutral-600'}`} 
           delay={1.5} 
         />
@@ -5,16 +5,9 @@ import { SlideLayout } from '../SlideLayout';
 import { GitStoryData } from '../../types';
 import { TextReveal } from '../TextReveal';
 import { motion } from 'framer-motion';
-import { Star, Trophy, Medal, Award } from 'lucide-react';
+import { Star, Trophy, Medal, Award, GitCommit } from 'lucide-react';
 import { useTheme } from '@/context/ThemeContext';
-
-const langColors: Record<string, string> = {
-  "TypeScript": "#3178C6", "JavaScript": "#F7DF1E", "Python": "#3572A5",
-  "Java": "#b07219", "Go": "#00ADD8", "Rust": "#dea584", "HTML": "#e34c26",
-  "CSS": "#563d7c", "C++": "#f34b7d", "C#": "#178600", "Vue": "#41b883",
-  "Swift": "#F05138", "Kotlin": "#A97BFF", "Jupyter Notebook": "#DA5B0B",
-  "Ruby": "#701516", "PHP": "#4F5D95", "Shell": "#89e051", "Dart": "#00B4AB",
-};
+import { LANGUAGE_COLORS } from '../../constants';
 
 export const TopReposSlide: React.FC<{ data: GitStoryData }> = ({ data }) => {
   const { theme } = useTheme();
@@ -40,7 +33,7 @@ export const TopReposSlide: React.FC<{ data: GitStoryData }> = ({ data }) => {
             className={`text-3xl font-serif italic mb-2 ${isDark ? 'text-white' : 'text-black'}`} 
           />
           <TextReveal 
-            text="The repos that defined your 2025." 
+            text={`The repos that defined your ${data.period.label}.`} 
             className={`text-sm font-sans ${isDark ? 'text-neutral-400' : 'text-neutral-600'}`}
             delay={0.3}
           />
@@ -72,7 +65,7 @@ export const TopReposSlide: React.FC<{ data: GitStoryData }> = ({ data }) => {
                   </h3>
                   <div 
                     className="w-2 h-2 rounded-full flex-shrink-0"
-                    style={{ backgroundColor: langColors[repo.language] || '#A3A3A3' }}
+                    style={{ backgroundColor: LANGUAGE_COLORS[repo.language] || '#A3A3A3' }}
                     title={repo.language}
                   />
                 </div>
@@ -81,12 +74,21 @@ export const TopReposSlide: React.FC<{ data: GitStoryData }> = ({ data }) => {
                 </p>
               </div>
 
-              <div className="flex items-center gap-1 flex-shrink-0">
-                <Star size={14} className="text-code-yellow" fill="currentColor" />
-                <span className={`font-mono text-sm ${isDark ? 'text-neutral-300' : 'text-neutral-700'}`}>
-                  {repo.stars >= 1000 ? `${(repo.stars / 1000).toFixed(1)}k` : repo.stars}
-                </span>
-              </div>
+              {repo.commits !== undefined ? (
+                <div className="flex items-center gap-1 flex-shrink-0">
+                  <GitCommit size={14} className="text-hero-blue" />
+                  <span className={`font-mono text-sm ${isDark ? 'text-neutral-300' : 'text-neutral-700'}`}>
+                    {repo.commits >= 1000 ? `${(repo.commits / 1000).toFixed(1)}k` : repo.commits}
+                  </span>
+                </div>
+              ) : (
+                <div className="flex items-center gap-1 flex-shrink-0">
+                  <Star size={14} className="text-code-yellow" fill="currentColor" />
+                  <span className={`font-mono text-sm ${isDark ? 'text-neutral-300' : 'text-neutral-700'}`}>
+                    {repo.stars >= 1000 ? `${(repo.stars / 1000).toFixed(1)}k` : repo.stars}
+                  </span>
+                </div>
+              )}
             </motion.div>
           ))}
         </div>
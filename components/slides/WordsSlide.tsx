@@ -0,0 +1,119 @@
+'use client'
+
+import React from 'react';
+import { SlideLayout } from '../SlideLayout';
+import { GitStoryData } from '../../types';
+import { TextReveal } from '../TextReveal';
+import { motion } from 'framer-motion';
+import { useTheme } from '@/context/ThemeContext';
+
+const TYPE_COLORS: Record<string, string> = {
+  feat: '#3B82F6',
+  fix: '#EF4444',
+  chore: '#6B7280',
+  docs: '#EAB308',
+  refactor: '#8B5CF6',
+  test: '#10B981',
+};
+
+const CLOUD_COLORS = ['text-hero-blue', 'text-hero-purple', 'text-code-yellow', 'text-emerald-400', 'text-pink-400'];
+
+export const WordsSlide: React.FC<{ data: GitStoryData }> = ({ data }) => {
+  const { theme } = useTheme();
+  const isDark = theme === 'dark';
+  const stats = data.commitMessages;
+  if (!stats || stats.total === 0) return null;
+
+  const maxCount = Math.max(1, ...stats.topWords.map(w => w.count));
+  // Biggest word in the middle, the rest alternating outwards so the cloud has a center of gravity
+  const cloud = stats.topWords.slice(0, 24).reduce<typeof stats.topWords>(
+    (words, word, index) => index % 2 === 0 ? [...words, word] : [word, ...words], []
+  );
+  const typeTotal = stats.types.reduce((sum, t) => sum + t.count, 0);
+  const topWord = stats.topWords[0];
+
+  return (
+    <SlideLayout gradientStart="#0891b2" gradientEnd="#083344">
+      <div className="flex-1 flex flex-col justify-center">
+
+        <div className="mb-6 text-center">
+          <TextReveal
+            text="Your Words."
+            className={`text-xl font-mono mb-4 uppercase tracking-widest justify-center ${isDark ? 'text-neutral-400' : 'text-neutral-600'}`}
+          />
+          <TextReveal
+            text={topWord ? `You said "${topWord.word}" ${topWord.count} times.` : `${stats.total} commit messages.`}
+            className={`text-3xl font-serif italic justify-center ${isDark ? 'text-white' : 'text-black'}`}
+            highlight={topWord ? `"${topWord.word}"` : undefined}
+            delay={0.5}
+          />
+        </div>
+
+        <div className="flex flex-wrap items-center justify-center gap-x-3 gap-y-1 w-full max-w-md mx-auto mb-6 min-h-[8rem]">
+          {cloud.map((word, index) => (
+            <motion.span
+              key={word.word}
+              initial={{ opacity: 0, scale: 0.5 }}
+              animate={{ opacity: 0.5 + 0.5 * (word.count / maxCount), scale: 1 }}
+              transition={{ delay: 1 + index * 0.04, type: "spring", stiffness: 200, damping: 15 }}
+              className={`font-serif leading-tight ${CLOUD_COLORS[word.word.length % CLOUD_COLORS.length]}`}
+              style={{ fontSize: `${0.75 + 1.5 * (word.count / maxCount)}rem` }}
+              title={`${word.word}: ${word.count}`}
+            >
+              {word.word}
+            </motion.span>
+          ))}
+        </div>
+
+        <div className="w-full max-w-md mx-auto">
+          {typeTotal > 0 && (
+            <motion.div initial={{ opacity: 0 }} animate={{ opacity: 1 }} transition={{ delay: 2 }} className="mb-4">
+              <div className={`flex justify-between text-xs font-mono uppercase mb-1 ${isDark ? 'text-neutral-400' : 'text-neutral-600'}`}>
+                <span>Conventional commits</span>
+                <span>{stats.conventionalShare}%</span>
+              </div>
+              <div className={`flex h-3 rounded-full overflow-hidden ${isDark ? 'bg-white/5' : 'bg-black/5'}`}>
+                {stats.types.map(type => (
+                  <div
+                    key={type.type}
+                    style={{ width: `${(type.count / typeTotal) * 100}%`, backgroundColor: TYPE_COLORS[type.type] || '#A3A3A3' }}
+                    title={`${type.type}: ${type.count}`}
+                  />
+                ))}
+              </div>
+              <div className="flex flex-wrap gap-3 mt-2">
+                {stats.types.map(type => (
+                  <div key={type.type} className={`flex items-center gap-1 text-xs font-mono ${isDark ? 'text-neutral-300' : 'text-neutral-700'}`}>
+                    <div className="w-2 h-2 rounded-full" style={{ backgroundColor: TYPE_COLORS[type.type] || '#A3A3A3' }} />
+                    {type.type} {type.count}
+                  </div>
+                ))}
+              </div>
+            </motion.div>
+          )}
+
+          <div className="grid grid-cols-3 gap-3">
+            {[
+              { label: 'Avg length', value: `${stats.averageLength}`, detail: 'characters' },
+              { label: 'Low effort', value: `${stats.lowEffortShare}%`, detail: '"wip", "fix typo"…' },
+              { label: 'Emoji', value: stats.topEmoji[0]?.emoji || '—', detail: stats.topEmoji[0] ? `×${stats.topEmoji[0].count}` : 'strictly business' },
+            ].map((card, index) => (
+              <motion.div
+                key={card.label}
+                initial={{ opacity: 0, y: 20 }}
+                animate={{ opacity: 1, y: 0 }}
+                transition={{ delay: 2.2 + index * 0.12 }}
+                className={`rounded-xl p-3 border backdrop-blur-sm ${isDark ? 'bg-white/5 border-white/10' : 'bg-black/5 border-black/10'}`}
+              >
+                <div className={`text-xs font-mono uppercase ${isDark ? 'text-neutral-400' : 'text-neutral-600'}`}>{card.label}</div>
+                <div className={`mt-1 text-xl font-bold truncate ${isDark ? 'text-white' : 'text-black'}`}>{card.value}</div>
+                <div className={`text-[10px] font-mono truncate ${isDark ? 'text-neutral-500' : 'text-neutral-600'}`}>{card.detail}</div>
+              </motion.div>
+            ))}
+          </div>
+        </div>
+
+      </div>
+    </SlideLayout>
+  );
+};
@@ -0,0 +1,63 @@
+'use client'
+
+import React from 'react';
+import { motion } from 'framer-motion';
+import { SlideLayout } from '../../SlideLayout';
+import { ComparisonStoryData } from '../../../types';
+import { TextReveal } from '../../TextReveal';
+import { formatDelta } from '../../../services/comparisonService';
+import { useTheme } from '@/context/ThemeContext';
+
+export const ArchetypeShiftSlide: React.FC<{ data: ComparisonStoryData }> = ({ data }) => {
+  const { theme } = useTheme();
+  const isDark = theme === 'dark';
+  const { current, previous, archetypeChanged, commitDelta, streakDelta } = data;
+
+  return (
+    <SlideLayout gradientStart="#000000" gradientEnd="#171717">
+      <div className="flex-1 flex flex-col items-center justify-center text-center">
+
+        <TextReveal
+          text={archetypeChanged ? "A new character arc." : "True to character."}
+          className={`text-xl font-mono mb-10 uppercase tracking-widest justify-center ${isDark ? 'text-neutral-400' : 'text-neutral-600'}`}
+        />
+
+        <motion.div
+          initial={{ y: 50, opacity: 0, scale: 0.9 }}
+          animate={{ y: 0, opacity: 1, scale: 1 }}
+          transition={{ duration: 0.8, ease: "circOut", delay: 0.3 }}
+          className={`border-4 p-6 w-full max-w-sm relative flex flex-col gap-6 ${isDark ? 'bg-neutral-900 border-white shadow-[0_0_50px_rgba(255,255,255,0.1)]' : 'bg-neutral-100 border-black shadow-[0_0_50px_rgba(0,0,0,0.1)]'}`}
+        >
+          <div className={`flex justify-between items-center border-b pb-4 ${isDark ? 'border-neutral-700' : 'border-neutral-300'}`}>
+            <img src={current.avatarUrl} alt="Avatar" className={`w-12 h-12 rounded-full border grayscale ${isDark ? 'border-neutral-500' : 'border-neutral-400'}`} />
+            <div className="text-right">
+              <div className={`text-xs uppercase font-mono tracking-widest ${isDark ? 'text-neutral-500' : 'text-neutral-600'}`}>@{current.username}</div>
+              <div className={`text-lg font-serif italic ${isDark ? 'text-white' : 'text-black'}`}>{previous.period.label} → {current.period.label}</div>
+            </div>
+          </div>
+
+          <div>
+            <div className={`text-xs uppercase font-mono tracking-widest mb-1 ${isDark ? 'text-neutral-500' : 'text-neutral-600'}`}>Previously</div>
+            <div className={`text-xl font-serif italic ${archetypeChanged ? 'line-through opacity-50' : ''} ${isDark ? 'text-white' : 'text-black'}`}>{previous.archetype}</div>
+          </div>
+          <div>
+            <div className={`text-xs uppercase font-mono tracking-widest mb-1 ${isDark ? 'text-neutral-500' : 'text-neutral-600'}`}>Now starring as</div>
+            <div className="text-3xl text-hero-blue font-serif italic">{current.archetype}</div>
+          </div>
+
+          <div className={`grid grid-cols-2 gap-4 border-t pt-4 ${isDark ? 'border-neutral-700' : 'border-neutral-300'}`}>
+            <div>
+              <div className={`text-xs uppercase font-mono tracking-widest mb-1 ${isDark ? 'text-neutral-500' : 'text-neutral-600'}`}>Commits</div>
+              <div className={`text-xl font-mono ${commitDelta >= 0 ? 'text-emerald-400' : 'text-rose-400'}`}>{formatDelta(commitDelta)}</div>
+            </div>
+            <div>
+              <div className={`text-xs uppercase font-mono tracking-widest mb-1 ${isDark ? 'text-neutral-500' : 'text-neutral-600'}`}>Streak</div>
+              <div className={`text-xl font-mono ${streakDelta >= 0 ? 'text-emerald-400' : 'text-rose-400'}`}>{formatDelta(streakDelta)} days</div>
+            </div>
+          </div>
+        </motion.div>
+
+      </div>
+    </SlideLayout>
+  );
+};
@@ -0,0 +1,62 @@
+'use client'
+
+import React from 'react';
+import { motion } from 'framer-motion';
+import { SlideLayout } from '../../SlideLayout';
+import { ComparisonStoryData } from '../../../types';
+import { TextReveal } from '../../TextReveal';
+import { useTheme } from '@/context/ThemeContext';
+
+export const ComparisonTitleSlide: React.FC<{ data: ComparisonStoryData }> = ({ data }) => {
+  const { theme } = useTheme();
+  const isDark = theme === 'dark';
+  const { current, previous } = data;
+
+  return (
+    <SlideLayout gradientStart="#3B82F6" gradientEnd="#8B5CF6">
+      <div className="flex-1 flex flex-col items-center justify-center text-center">
+        <motion.img
+          src={current.avatarUrl}
+          alt={current.username}
+          initial={{ scale: 0, opacity: 0 }}
+          animate={{ scale: 1, opacity: 1 }}
+          transition={{ duration: 1, type: "spring" }}
+          className={`w-24 h-24 rounded-full border-2 mb-10 ${isDark ? 'border-white/20' : 'border-black/20'}`}
+        />
+
+        <div className="flex items-center justify-center gap-4 mb-6">
+          <motion.span
+            initial={{ opacity: 0, x: -30 }}
+            animate={{ opacity: 0.5, x: 0 }}
+            transition={{ delay: 0.5 }}
+            className={`text-3xl font-serif ${isDark ? 'text-white' : 'text-black'}`}
+          >
+            {previous.period.label}
+          </motion.span>
+          <motion.span
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            transition={{ delay: 0.9 }}
+            className="text-2xl font-mono text-hero-blue"
+          >
+            →
+          </motion.span>
+          <motion.span
+            initial={{ opacity: 0, x: 30 }}
+            animate={{ opacity: 1, x: 0 }}
+            transition={{ delay: 1.2 }}
+            className={`text-5xl font-serif italic ${isDark ? 'text-white' : 'text-black'}`}
+          >
+            {current.period.label}
+          </motion.span>
+        </div>
+
+        <TextReveal
+          text="Every sequel needs a better story."
+          className={`text-2xl font-sans max-w-xs mx-auto justify-center ${isDark ? 'text-neutral-400' : 'text-neutral-600'}`}
+          delay={1.5}
+        />
+      </div>
+    </SlideLayout>
+  );
+};
@@ -0,0 +1,90 @@
+'use client'
+
+import React from 'react';
+import { motion } from 'framer-motion';
+import { TrendingUp, TrendingDown, Flame, GitCommit } from 'lucide-react';
+import { SlideLayout } from '../../SlideLayout';
+import { ComparisonStoryData } from '../../../types';
+import { TextReveal } from '../../TextReveal';
+import { formatDelta } from '../../../services/comparisonService';
+import { useTheme } from '@/context/ThemeContext';
+
+export const GrowthSlide: React.FC<{ data: ComparisonStoryData }> = ({ data }) => {
+  const { theme } = useTheme();
+  const isDark = theme === 'dark';
+  const { current, previous, commitDelta, commitGrowth, streakDelta } = data;
+  const grew = commitDelta >= 0;
+
+  const rows = [
+    {
+      label: 'Commits',
+      icon: <GitCommit size={20} className="text-hero-blue" />,
+      previous: previous.totalCommits,
+      current: current.totalCommits,
+      delta: commitDelta,
+    },
+    {
+      label: 'Longest streak',
+      icon: <Flame size={20} className="text-orange-400" />,
+      previous: previous.longestStreak,
+      current: current.longestStreak,
+      delta: streakDelta,
+    },
+  ];
+
+  return (
+    <SlideLayout gradientStart={grew ? "#10b981" : "#be123c"} gradientEnd="#000000">
+      <div className="flex-1 flex flex-col items-center justify-center">
+
+        <div className="mb-10 text-center">
+          <TextReveal
+            text="The growth."
+            className={`text-xl font-mono mb-6 uppercase tracking-widest justify-center ${isDark ? 'text-neutral-400' : 'text-neutral-600'}`}
+          />
+          <motion.div
+            initial={{ opacity: 0, scale: 0.5 }}
+            animate={{ opacity: 1, scale: 1 }}
+            transition={{ type: "spring", delay: 0.5 }}
+            className="flex items-center justify-center gap-4"
+          >
+            {grew ? <TrendingUp size={56} className="text-emerald-400" /> : <TrendingDown size={56} className="text-rose-400" />}
+            <span className={`text-7xl font-serif italic font-bold ${isDark ? 'text-white' : 'text-black'}`}>
+              {commitGrowth !== null ? `${commitGrowth > 0 ? '+' : ''}${commitGrowth}%` : formatDelta(commitDelta)}
+            </span>
+          </motion.div>
+          <TextReveal
+            text={grew ? `More commits than ${previous.period.label}.` : `A quieter chapter than ${previous.period.label}.`}
+            className={`text-lg font-sans mt-4 justify-center ${isDark ? 'text-neutral-400' : 'text-neutral-600'}`}
+            delay={1}
+          />
+        </div>
+
+        <div className="space-y-3 w-full max-w-sm">
+          {rows.map((row, index) => (
+            <motion.div
+              key={row.label}
+              initial={{ opacity: 0, x: -20 }}
+              animate={{ opacity: 1, x: 0 }}
+              transition={{ delay: 1.5 + index * 0.2 }}
+              className={`flex items-center gap-3 rounded-xl p-4 border ${isDark ? 'bg-white/5 border-white/10' : 'bg-black/5 border-black/10'}`}
+            >
+              {row.icon}
+              <div className="flex-1">
+                <div className={`text-xs font-mono uppercase tracking-widest ${isDark ? 'text-neutral-400' : 'text-neutral-600'}`}>{row.label}</div>
+                <div className={`font-mono ${isDark ? 'text-white' : 'text-black'}`}>
+                  <span className="opacity-50">{row.previous.toLocaleString()}</span>
+                  <span className="mx-2 opacity-50">→</span>
+                  <span className="font-bold">{row.current.toLocaleString()}</span>
+                </div>
+              </div>
+              <span className={`font-mono text-lg font-bold ${row.delta >= 0 ? 'text-emerald-400' : 'text-rose-400'}`}>
+                {formatDelta(row.delta)}
+              </span>
+            </motion.div>
+          ))}
+        </div>
+
+      </div>
+    </SlideLayout>
+  );
+};
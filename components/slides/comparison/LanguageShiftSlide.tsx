@@ -0,0 +1,86 @@
+'use client'
+
+import React from 'react';
+import { motion } from 'framer-motion';
+import { SlideLayout } from '../../SlideLayout';
+import { ComparisonStoryData } from '../../../types';
+import { TextReveal } from '../../TextReveal';
+import { useTheme } from '@/context/ThemeContext';
+
+export const LanguageShiftSlide: React.FC<{ data: ComparisonStoryData }> = ({ data }) => {
+  const { theme } = useTheme();
+  const isDark = theme === 'dark';
+  const { current, previous, languageShifts } = data;
+  const previousTop = previous.topLanguages[0]?.name;
+  const currentTop = current.topLanguages[0]?.name;
+
+  const headline = previousTop && currentTop && previousTop !== currentTop
+    ? `From ${previousTop} to ${currentTop}.`
+    : `Still fluent in ${currentTop || 'code'}.`;
+
+  return (
+    <SlideLayout gradientStart={current.topLanguages[0]?.color || "#3B82F6"} gradientEnd="#000000">
+      <div className="flex-1 flex flex-col justify-center">
+
+        <div className="mb-10 text-center">
+          <TextReveal
+            text="The shift."
+            className={`text-xl font-mono mb-6 uppercase tracking-widest justify-center ${isDark ? 'text-neutral-400' : 'text-neutral-600'}`}
+          />
+          <TextReveal
+            text={headline}
+            className={`text-4xl font-serif leading-tight justify-center ${isDark ? 'text-white' : 'text-black'}`}
+            highlight={currentTop}
+            delay={0.5}
+          />
+        </div>
+
+        <div className="space-y-4 max-w-sm mx-auto w-full">
+          {languageShifts.slice(0, 5).map((lang, index) => {
+            const delta = lang.currentPercentage - lang.previousPercentage;
+            return (
+              <motion.div
+                key={lang.name}
+                initial={{ opacity: 0, y: 20 }}
+                animate={{ opacity: 1, y: 0 }}
+                transition={{ delay: 1.2 + index * 0.15 }}
+              >
+                <div className="flex items-center gap-2 mb-1">
+                  <div className="w-3 h-3 rounded-full" style={{ backgroundColor: lang.color }} />
+                  <span className={`flex-1 font-sans ${isDark ? 'text-white' : 'text-black'}`}>{lang.name}</span>
+                  <span className={`font-mono text-sm ${delta > 0 ? 'text-emerald-400' : delta < 0 ? 'text-rose-400' : isDark ? 'text-neutral-500' : 'text-neutral-600'}`}>
+                    {lang.previousPercentage === 0 ? 'NEW' : lang.currentPercentage === 0 ? 'DROPPED' : `${delta > 0 ? '+' : ''}${delta}%`}
+                  </span>
+                </div>
+                <div className="space-y-1">
+                  <div className={`h-1.5 rounded-full overflow-hidden ${isDark ? 'bg-neutral-800' : 'bg-neutral-200'}`}>
+                    <div className="h-full rounded-full opacity-40" style={{ width: `${lang.previousPercentage}%`, backgroundColor: lang.color }} />
+                  </div>
+                  <div className={`h-1.5 rounded-full overflow-hidden ${isDark ? 'bg-neutral-800' : 'bg-neutral-200'}`}>
+                    <motion.div
+                      initial={{ width: 0 }}
+                      animate={{ width: `${lang.currentPercentage}%` }}
+                      transition={{ delay: 1.5 + index * 0.15, duration: 0.8 }}
+                      className="h-full rounded-full"
+                      style={{ backgroundColor: lang.color }}
+                    />
+                  </div>
+                </div>
+              </motion.div>
+            );
+          })}
+        </div>
+
+        <motion.p
+          initial={{ opacity: 0 }}
+          animate={{ opacity: 1 }}
+          transition={{ delay: 2.5 }}
+          className={`mt-8 text-center text-xs font-mono uppercase tracking-widest ${isDark ? 'text-neutral-500' : 'text-neutral-600'}`}
+        >
+          Faded: {previous.period.label} • Solid: {current.period.label}
+        </motion.p>
+
+      </div>
+    </SlideLayout>
+  );
+};
@@ -0,0 +1,69 @@
+'use client'
+
+import React from 'react';
+import { motion } from 'framer-motion';
+import { Sparkles, Archive } from 'lucide-react';
+import { SlideLayout } from '../../SlideLayout';
+import { ComparisonStoryData, Repository } from '../../../types';
+import { TextReveal } from '../../TextReveal';
+import { useTheme } from '@/context/ThemeContext';
+
+export const RepoShiftSlide: React.FC<{ data: ComparisonStoryData }> = ({ data }) => {
+  const { theme } = useTheme();
+  const isDark = theme === 'dark';
+  const { newRepos, droppedRepos, previous } = data;
+
+  const renderList = (repos: Repository[], emptyText: string, delay: number, muted: boolean) => (
+    <div className="space-y-2">
+      {repos.length === 0 && (
+        <p className={`text-sm font-sans italic ${isDark ? 'text-neutral-600' : 'text-neutral-400'}`}>{emptyText}</p>
+      )}
+      {repos.slice(0, 4).map((repo, index) => (
+        <motion.div
+          key={repo.url || repo.name}
+          initial={{ opacity: 0, x: -20 }}
+          animate={{ opacity: 1, x: 0 }}
+          transition={{ delay: delay + index * 0.15, type: "spring", damping: 20 }}
+          className={`flex items-center gap-3 p-3 rounded-xl border ${isDark ? 'bg-neutral-900/60 border-neutral-800' : 'bg-neutral-100/60 border-neutral-200'} ${muted ? 'opacity-50' : ''}`}
+        >
+          <span className={`flex-1 font-bold truncate ${muted ? 'line-through' : ''} ${isDark ? 'text-neutral-200' : 'text-neutral-800'}`}>{repo.name}</span>
+          <span className={`font-mono text-xs ${isDark ? 'text-neutral-500' : 'text-neutral-600'}`}>{repo.language}</span>
+        </motion.div>
+      ))}
+    </div>
+  );
+
+  return (
+    <SlideLayout gradientStart="#7c3aed" gradientEnd="#1e1b4b">
+      <div className="flex-1 flex flex-col justify-center max-w-md mx-auto w-full">
+
+        <div className="mb-8 text-center">
+          <TextReveal
+            text="Cast changes."
+            className={`text-3xl font-serif italic mb-2 justify-center ${isDark ? 'text-white' : 'text-black'}`}
+          />
+          <TextReveal
+            text={`How your top projects changed since ${previous.period.label}.`}
+            className={`text-sm font-sans justify-center ${isDark ? 'text-neutral-400' : 'text-neutral-600'}`}
+            delay={0.3}
+          />
+        </div>
+
+        <div className="mb-6">
+          <div className="flex items-center gap-2 mb-3 text-xs font-mono uppercase tracking-widest text-emerald-400">
+            <Sparkles size={14} /> New arrivals
+          </div>
+          {renderList(newRepos, 'Same leading cast as before.', 0.6, false)}
+        </div>
+
+        <div>
+          <div className={`flex items-center gap-2 mb-3 text-xs font-mono uppercase tracking-widest ${isDark ? 'text-neutral-500' : 'text-neutral-600'}`}>
+            <Archive size={14} /> Written out
+          </div>
+          {renderList(droppedRepos, 'Nobody left the show.', 1.4, true)}
+        </div>
+
+      </div>
+    </SlideLayout>
+  );
+};
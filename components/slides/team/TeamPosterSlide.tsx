@@ -0,0 +1,154 @@
+'use client'
+
+import React, { useEffect, useRef, useState } from 'react';
+import { motion } from 'framer-motion';
+import confetti from 'canvas-confetti';
+import { toPng } from 'html-to-image';
+import { Download, Check, Loader2, AlertTriangle } from 'lucide-react';
+import { SlideLayout } from '../../SlideLayout';
+import { TeamStoryData } from '../../../types';
+import { getPeriodSlug } from '../../../services/period';
+import { useTheme } from '@/context/ThemeContext';
+
+export const TeamPosterSlide: React.FC<{ data: TeamStoryData }> = ({ data }) => {
+  const { theme } = useTheme();
+  const isDark = theme === 'dark';
+  const { team, members } = data;
+  const [isDownloading, setIsDownloading] = useState(false);
+  const [hasDownloaded, setHasDownloaded] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const posterRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    confetti({
+      particleCount: 150,
+      spread: 100,
+      origin: { y: 0.6 },
+      colors: ['#3B82F6', '#EAB308', '#FFFFFF']
+    });
+  }, []);
+
+  const handleDownload = async (e: React.MouseEvent) => {
+    e.stopPropagation();
+    if (!posterRef.current || isDownloading || hasDownloaded) return;
+
+    setIsDownloading(true);
+    setError(null);
+    try {
+      const dataUrl = await toPng(posterRef.current, {
+        cacheBust: true,
+        pixelRatio: 2,
+        quality: 0.95,
+        filter: (node) => {
+          const tagName = (node as HTMLElement).tagName;
+          return tagName !== 'LINK' && tagName !== 'SCRIPT';
+        }
+      });
+      const slug = data.isOrganization ? data.name : 'team';
+      const link = document.createElement('a');
+      link.download = `gitstory-${slug}-${getPeriodSlug(team.period)}.png`;
+      link.href = dataUrl;
+      link.click();
+      setHasDownloaded(true);
+      setTimeout(() => setHasDownloaded(false), 3000);
+    } catch (err) {
+      console.error("Failed to generate team poster:", err);
+      setError("Failed to save. Try screenshotting!");
+    } finally {
+      setIsDownloading(false);
+    }
+  };
+
+  const stats = [
+    { label: 'Contributions', value: team.totalContributions.toLocaleString() },
+    { label: 'Longest Streak', value: `${team.longestStreak} Days` },
+    { label: 'Members', value: members.length.toLocaleString() },
+    { label: 'Top Language', value: team.topLanguages[0]?.name || 'N/A' },
+  ];
+
+  return (
+    <SlideLayout gradientStart="#000000" gradientEnd="#171717">
+      <div className="flex-1 flex flex-col items-center justify-center h-full">
+
+        <motion.div
+          ref={posterRef}
+          initial={{ y: 50, opacity: 0, scale: 0.9 }}
+          animate={{ y: 0, opacity: 1, scale: 1 }}
+          transition={{ duration: 0.8, ease: "circOut" }}
+          className={`border-4 w-full max-w-sm flex flex-col ${isDark ? 'bg-neutral-900 border-white shadow-[0_0_50px_rgba(255,255,255,0.1)]' : 'bg-neutral-100 border-black shadow-[0_0_50px_rgba(0,0,0,0.1)]'}`}
+        >
+          <div className={`flex justify-between items-baseline border-b px-6 py-4 ${isDark ? 'border-neutral-700' : 'border-neutral-300'}`}>
+            <h1 className={`text-3xl font-serif italic ${isDark ? 'text-white' : 'text-black'}`}>GitStory</h1>
+            <div className={`text-sm font-mono ${isDark ? 'text-neutral-500' : 'text-neutral-600'}`}>{team.period.label}</div>
+          </div>
+
+          <div className="flex items-center gap-4 px-6 py-5">
+            <img
+              src={team.avatarUrl}
+              alt={data.name}
+              crossOrigin="anonymous"
+              className={`w-16 h-16 border-2 ${data.isOrganization ? 'rounded-xl' : 'rounded-full'} ${isDark ? 'border-white/20' : 'border-black/20'}`}
+            />
+            <div className="min-w-0">
+              <div className={`text-xl font-sans font-bold truncate ${isDark ? 'text-white' : 'text-black'}`}>
+                {data.isOrganization ? data.name : `${members.length} developers`}
+              </div>
+              <div className="text-sm font-serif italic text-hero-blue">{team.archetype}</div>
+            </div>
+          </div>
+
+          <div className={`grid grid-cols-2 gap-4 border-t px-6 py-4 ${isDark ? 'border-neutral-700' : 'border-neutral-300'}`}>
+            {stats.map(stat => (
+              <div key={stat.label}>
+                <div className={`text-[10px] font-mono uppercase tracking-widest ${isDark ? 'text-neutral-500' : 'text-neutral-600'}`}>{stat.label}</div>
+                <div className={`text-lg font-sans font-bold ${isDark ? 'text-white' : 'text-black'}`}>{stat.value}</div>
+              </div>
+            ))}
+          </div>
+
+          <div className={`border-t px-6 py-3 flex justify-between items-center ${isDark ? 'border-neutral-700' : 'border-neutral-300'}`}>
+            <div className="flex -space-x-2">
+              {members.slice(0, 6).map(member => (
+                <img
+                  key={member.username}
+                  src={member.avatarUrl}
+                  alt={member.username}
+                  crossOrigin="anonymous"
+                  className={`w-7 h-7 rounded-full border-2 ${isDark ? 'border-neutral-900' : 'border-neutral-100'}`}
+                />
+              ))}
+            </div>
+            <div className={`text-[10px] font-mono uppercase ${isDark ? 'text-neutral-600' : 'text-neutral-500'}`}>Directed by Everyone</div>
+          </div>
+        </motion.div>
+
+        <motion.button
+          initial={{ opacity: 0 }}
+          animate={{ opacity: 1 }}
+          transition={{ delay: 2 }}
+          className={`mt-8 flex items-center gap-2 px-6 py-3 rounded-full font-bold transition-all active:scale-95 ${
+            hasDownloaded
+              ? "bg-green-500 text-white"
+              : error
+                ? "bg-red-500 text-white"
+                : isDark ? "bg-white text-black hover:bg-neutral-200" : "bg-black text-white hover:bg-neutral-800"
+          }`}
+          onClick={handleDownload}
+          onPointerDown={(e) => e.stopPropagation()}
+          disabled={isDownloading}
+        >
+          {isDownloading ? (
+            <><Loader2 size={18} className="animate-spin" /> Saving...</>
+          ) : hasDownloaded ? (
+            <><Check size={18} /> Saved!</>
+          ) : error ? (
+            <><AlertTriangle size={18} /> {error}</>
+          ) : (
+            <><Download size={18} /> Save</>
+          )}
+        </motion.button>
+
+      </div>
+    </SlideLayout>
+  );
+};
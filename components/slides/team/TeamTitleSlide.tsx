@@ -0,0 +1,62 @@
+'use client'
+
+import React from 'react';
+import { motion } from 'framer-motion';
+import { SlideLayout } from '../../SlideLayout';
+import { TeamStoryData } from '../../../types';
+import { TextReveal } from '../../TextReveal';
+import { useTheme } from '@/context/ThemeContext';
+
+export const TeamTitleSlide: React.FC<{ data: TeamStoryData }> = ({ data }) => {
+  const { theme } = useTheme();
+  const isDark = theme === 'dark';
+  const { team, members, isOrganization } = data;
+
+  return (
+    <SlideLayout gradientStart="#3B82F6" gradientEnd="#000000">
+      <div className="flex-1 flex flex-col items-center justify-center text-center">
+        <motion.img
+          src={team.avatarUrl}
+          alt={data.name}
+          initial={{ scale: 0, opacity: 0, rotate: -180 }}
+          animate={{ scale: 1, opacity: 1, rotate: 0 }}
+          transition={{ duration: 1.2, type: "spring" }}
+          className={`w-28 h-28 mb-8 border-2 ${isOrganization ? 'rounded-2xl' : 'rounded-full'} ${isDark ? 'border-white/20' : 'border-black/20'}`}
+        />
+
+        <TextReveal
+          text={isOrganization ? data.name : `${members.length} developers.`}
+          className={`text-6xl font-serif mb-4 tracking-tighter justify-center ${isDark ? 'text-white' : 'text-black'}`}
+          delay={0.5}
+        />
+
+        <TextReveal
+          text={`${team.period.label}. Built together.`}
+          className={`text-2xl font-sans max-w-xs mx-auto justify-center ${isDark ? 'text-neutral-400' : 'text-neutral-600'}`}
+          delay={1.5}
+        />
+
+        <motion.div
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ delay: 2.5 }}
+          className="flex -space-x-3 mt-10"
+        >
+          {members.slice(0, 8).map(member => (
+            <img
+              key={member.username}
+              src={member.avatarUrl}
+              alt={member.username}
+              className={`w-10 h-10 rounded-full border-2 ${isDark ? 'border-black' : 'border-white'}`}
+            />
+          ))}
+          {members.length > 8 && (
+            <div className={`w-10 h-10 rounded-full border-2 flex items-center justify-center text-xs font-mono ${isDark ? 'border-black bg-neutral-800 text-white' : 'border-white bg-neutral-200 text-black'}`}>
+              +{members.length - 8}
+            </div>
+          )}
+        </motion.div>
+      </div>
+    </SlideLayout>
+  );
+};
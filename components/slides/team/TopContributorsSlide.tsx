@@ -0,0 +1,86 @@
+'use client'
+
+import React from 'react';
+import { motion } from 'framer-motion';
+import { Trophy, Medal, Award, Flame } from 'lucide-react';
+import { SlideLayout } from '../../SlideLayout';
+import { TeamStoryData } from '../../../types';
+import { TextReveal } from '../../TextReveal';
+import { useTheme } from '@/context/ThemeContext';
+
+export const TopContributorsSlide: React.FC<{ data: TeamStoryData }> = ({ data }) => {
+  const { theme } = useTheme();
+  const isDark = theme === 'dark';
+  const topMembers = data.members.slice(0, 5);
+  const maxContributions = Math.max(topMembers[0]?.contributions || 0, 1);
+
+  const getRankIcon = (index: number) => {
+    switch (index) {
+      case 0: return <Trophy size={20} className="text-yellow-400" />;
+      case 1: return <Medal size={20} className="text-gray-300" />;
+      case 2: return <Award size={20} className="text-amber-600" />;
+      default: return <span className={`font-mono text-sm w-5 text-center ${isDark ? 'text-neutral-500' : 'text-neutral-600'}`}>{index + 1}</span>;
+    }
+  };
+
+  return (
+    <SlideLayout gradientStart="#eab308" gradientEnd="#1e1b4b">
+      <div className="flex-1 flex flex-col justify-center">
+
+        <div className="mb-8 text-center">
+          <TextReveal
+            text="The headliners."
+            className={`text-3xl font-serif italic mb-2 justify-center ${isDark ? 'text-white' : 'text-black'}`}
+          />
+          <TextReveal
+            text={`Top contributors of ${data.team.period.label}.`}
+            className={`text-sm font-sans justify-center ${isDark ? 'text-neutral-400' : 'text-neutral-600'}`}
+            delay={0.3}
+          />
+        </div>
+
+        <div className="space-y-3 max-w-md mx-auto w-full">
+          {topMembers.map((member, index) => (
+            <motion.div
+              key={member.username}
+              initial={{ opacity: 0, x: -30 }}
+              animate={{ opacity: 1, x: 0 }}
+              transition={{ delay: 0.5 + index * 0.15, type: "spring", damping: 20 }}
+              className={`relative overflow-hidden flex items-center gap-3 p-3 rounded-xl ${
+                index === 0
+                  ? 'border border-yellow-500/30'
+                  : isDark ? 'bg-neutral-900/60 border border-neutral-800' : 'bg-neutral-100/60 border border-neutral-200'
+              }`}
+            >
+              <motion.div
+                initial={{ width: 0 }}
+                animate={{ width: `${(member.contributions / maxContributions) * 100}%` }}
+                transition={{ delay: 0.8 + index * 0.15, duration: 0.8 }}
+                className={`absolute inset-y-0 left-0 pointer-events-none ${index === 0 ? 'bg-gradient-to-r from-yellow-500/20 to-amber-500/10' : isDark ? 'bg-white/5' : 'bg-black/5'}`}
+              />
+              <div className="relative flex-shrink-0 w-6 flex justify-center">{getRankIcon(index)}</div>
+              <img src={member.avatarUrl} alt={member.username} className="relative w-8 h-8 rounded-full" />
+              <span className={`relative flex-1 font-bold truncate ${isDark ? 'text-neutral-200' : 'text-neutral-800'}`}>@{member.username}</span>
+              <span className={`relative flex items-center gap-1 font-mono text-xs ${isDark ? 'text-neutral-500' : 'text-neutral-600'}`}>
+                <Flame size={12} className="text-orange-400" />{member.longestStreak}d
+              </span>
+              <span className={`relative font-mono text-sm ${isDark ? 'text-neutral-300' : 'text-neutral-700'}`}>{member.contributions.toLocaleString()}</span>
+            </motion.div>
+          ))}
+        </div>
+
+        <motion.p
+          initial={{ opacity: 0 }}
+          animate={{ opacity: 1 }}
+          transition={{ delay: 1.5 }}
+          className={`mt-8 text-center text-sm font-sans ${isDark ? 'text-neutral-500' : 'text-neutral-600'}`}
+        >
+          {data.members.length > topMembers.length
+            ? `And ${data.members.length - topMembers.length} more in the ensemble.`
+            : 'Every contribution counted.'}
+        </motion.p>
+
+      </div>
+    </SlideLayout>
+  );
+};
@@ -0,0 +1,71 @@
+'use client'
+
+import React from 'react';
+import { motion } from 'framer-motion';
+import { Users, Star, GitPullRequest, Eye } from 'lucide-react';
+import { SlideLayout } from '../../SlideLayout';
+import { VersusStoryData } from '../../../types';
+import { TextReveal } from '../../TextReveal';
+import { VERSUS_COLORS } from '../../../constants';
+import { useTheme } from '@/context/ThemeContext';
+
+export const VersusCommunitySlide: React.FC<{ data: VersusStoryData }> = ({ data }) => {
+  const { theme } = useTheme();
+  const isDark = theme === 'dark';
+  const { left, right } = data;
+
+  const rows = [
+    { label: 'Followers', icon: <Users size={18} className="text-rose-400" />, left: left.community.followers, right: right.community.followers },
+    { label: 'Stars', icon: <Star size={18} className="text-yellow-400" />, left: left.community.totalStars, right: right.community.totalStars },
+    { label: 'Pull requests', icon: <GitPullRequest size={18} className="text-hero-purple" />, left: left.contributionBreakdown.prs, right: right.contributionBreakdown.prs },
+    { label: 'Reviews', icon: <Eye size={18} className="text-pink-400" />, left: left.contributionBreakdown.reviews, right: right.contributionBreakdown.reviews },
+  ];
+
+  return (
+    <SlideLayout gradientStart="#be123c" gradientEnd="#881337">
+      <div className="flex-1 flex flex-col items-center justify-center">
+
+        <div className="mb-12 text-center">
+          <TextReveal
+            text="The Impact."
+            className={`text-xl font-mono mb-4 uppercase tracking-widest justify-center ${isDark ? 'text-rose-300' : 'text-rose-700'}`}
+          />
+        </div>
+
+        <div className="w-full max-w-md space-y-6">
+          {rows.map((row, index) => {
+            const total = row.left + row.right;
+            const leftShare = total > 0 ? (row.left / total) * 100 : 50;
+
+            return (
+              <motion.div
+                key={row.label}
+                initial={{ opacity: 0, scale: 0.8 }}
+                animate={{ opacity: 1, scale: 1 }}
+                transition={{ type: "spring", delay: 0.5 + index * 0.3 }}
+              >
+                <div className="flex items-center justify-between mb-2">
+                  <span className="font-mono text-xl font-bold" style={{ color: VERSUS_COLORS.left }}>{row.left.toLocaleString()}</span>
+                  <span className={`flex items-center gap-2 text-xs font-mono uppercase tracking-widest ${isDark ? 'text-neutral-400' : 'text-neutral-600'}`}>
+                    {row.icon} {row.label}
+                  </span>
+                  <span className="font-mono text-xl font-bold" style={{ color: VERSUS_COLORS.right }}>{row.right.toLocaleString()}</span>
+                </div>
+                <div className="flex h-2 rounded-full overflow-hidden">
+                  <motion.div
+                    initial={{ width: '50%' }}
+                    animate={{ width: `${leftShare}%` }}
+                    transition={{ delay: 0.8 + index * 0.3, duration: 0.8 }}
+                    style={{ backgroundColor: VERSUS_COLORS.left }}
+                  />
+                  <div className="flex-1" style={{ backgroundColor: VERSUS_COLORS.right }} />
+                </div>
+              </motion.div>
+            );
+          })}
+        </div>
+
+      </div>
+    </SlideLayout>
+  );
+};
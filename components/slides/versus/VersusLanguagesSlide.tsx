@@ -0,0 +1,66 @@
+'use client'
+
+import React from 'react';
+import { motion } from 'framer-motion';
+import { SlideLayout } from '../../SlideLayout';
+import { GitStoryData, VersusStoryData } from '../../../types';
+import { TextReveal } from '../../TextReveal';
+import { VERSUS_COLORS } from '../../../constants';
+import { useTheme } from '@/context/ThemeContext';
+
+export const VersusLanguagesSlide: React.FC<{ data: VersusStoryData }> = ({ data }) => {
+  const { theme } = useTheme();
+  const isDark = theme === 'dark';
+  const { left, right } = data;
+  const leftTop = left.topLanguages[0];
+  const rightTop = right.topLanguages[0];
+
+  const headline = leftTop?.name === rightTop?.name
+    ? `Both fluent in ${leftTop?.name}.`
+    : `${leftTop?.name} meets ${rightTop?.name}.`;
+
+  const renderColumn = (story: GitStoryData, color: string, delay: number, align: 'left' | 'right') => (
+    <div className="flex-1 min-w-0 space-y-3">
+      <div className={`font-mono text-sm truncate ${align === 'right' ? 'text-right' : ''}`} style={{ color }}>@{story.username}</div>
+      {story.topLanguages.map((lang, i) => (
+        <motion.div
+          key={lang.name}
+          initial={{ opacity: 0, x: align === 'left' ? -20 : 20 }}
+          animate={{ opacity: 1, x: 0 }}
+          transition={{ delay: delay + i * 0.15 }}
+          className={`flex items-center gap-2 ${align === 'right' ? 'flex-row-reverse text-right' : ''}`}
+        >
+          <div className="w-3 h-3 rounded-full flex-shrink-0" style={{ backgroundColor: lang.color }} />
+          <span className={`flex-1 truncate font-sans ${isDark ? 'text-white' : 'text-black'}`}>{lang.name}</span>
+          <span className={`font-mono text-sm ${isDark ? 'text-neutral-400' : 'text-neutral-600'}`}>{lang.percentage}%</span>
+        </motion.div>
+      ))}
+    </div>
+  );
+
+  return (
+    <SlideLayout gradientStart={leftTop?.color || VERSUS_COLORS.left} gradientEnd={rightTop?.color || VERSUS_COLORS.right}>
+      <div className="flex-1 flex flex-col justify-center">
+
+        <div className="mb-12 text-center">
+          <TextReveal
+            text="The Palettes."
+            className={`text-xl font-mono mb-6 uppercase tracking-widest justify-center ${isDark ? 'text-neutral-400' : 'text-neutral-600'}`}
+          />
+          <TextReveal
+            text={headline}
+            className={`text-4xl font-serif leading-tight justify-center ${isDark ? 'text-white' : 'text-black'}`}
+            delay={0.5}
+          />
+        </div>
+
+        <div className="flex gap-6 max-w-md mx-auto w-full">
+          {renderColumn(left, VERSUS_COLORS.left, 1.2, 'left')}
+          <div className={`w-px ${isDark ? 'bg-neutral-800' : 'bg-neutral-300'}`} />
+          {renderColumn(right, VERSUS_COLORS.right, 1.4, 'right')}
+        </div>
+
+      </div>
+    </SlideLayout>
+  );
+};
@@ -0,0 +1,149 @@
+'use client'
+
+import React, { useEffect, useRef, useState } from 'react';
+import { motion } from 'framer-motion';
+import confetti from 'canvas-confetti';
+import { toPng } from 'html-to-image';
+import { Download, Check, Loader2, AlertTriangle } from 'lucide-react';
+import { SlideLayout } from '../../SlideLayout';
+import { GitStoryData, VersusStoryData } from '../../../types';
+import { VERSUS_COLORS } from '../../../constants';
+import { getVersusScoreboard } from '../../../services/versusService';
+import { getPeriodSlug } from '../../../services/period';
+import { useTheme } from '@/context/ThemeContext';
+
+export const VersusPosterSlide: React.FC<{ data: VersusStoryData }> = ({ data }) => {
+  const { theme } = useTheme();
+  const isDark = theme === 'dark';
+  const { left, right } = data;
+  const [isDownloading, setIsDownloading] = useState(false);
+  const [hasDownloaded, setHasDownloaded] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const posterRef = useRef<HTMLDivElement>(null);
+  const scoreboard = getVersusScoreboard(data);
+
+  useEffect(() => {
+    const winnerColor = scoreboard.winner === 'right' ? VERSUS_COLORS.right : VERSUS_COLORS.left;
+    confetti({
+      particleCount: 120,
+      spread: 90,
+      origin: { x: scoreboard.winner === 'right' ? 0.75 : scoreboard.winner === 'left' ? 0.25 : 0.5, y: 0.6 },
+      colors: [winnerColor, '#EAB308', '#FFFFFF']
+    });
+  }, [scoreboard.winner]);
+
+  const handleDownload = async (e: React.MouseEvent) => {
+    e.stopPropagation();
+    if (!posterRef.current || isDownloading || hasDownloaded) return;
+
+    setIsDownloading(true);
+    setError(null);
+    try {
+      const dataUrl = await toPng(posterRef.current, {
+        cacheBust: true,
+        pixelRatio: 2,
+        quality: 0.95,
+        filter: (node) => {
+          const tagName = (node as HTMLElement).tagName;
+          return tagName !== 'LINK' && tagName !== 'SCRIPT';
+        }
+      });
+      const link = document.createElement('a');
+      link.download = `gitstory-${left.username}-vs-${right.username}-${getPeriodSlug(left.period)}.png`;
+      link.href = dataUrl;
+      link.click();
+      setHasDownloaded(true);
+      setTimeout(() => setHasDownloaded(false), 3000);
+    } catch (err) {
+      console.error("Failed to generate versus poster:", err);
+      setError("Failed to save. Try screenshotting!");
+    } finally {
+      setIsDownloading(false);
+    }
+  };
+
+  const renderHalf = (story: GitStoryData, color: string, isWinner: boolean) => (
+    <div className="flex-1 min-w-0 flex flex-col items-center text-center gap-2 p-4" style={{ backgroundColor: `${color}14` }}>
+      <img
+        src={story.avatarUrl}
+        alt={story.username}
+        crossOrigin="anonymous"
+        className="w-16 h-16 rounded-full border-2"
+        style={{ borderColor: color }}
+      />
+      <div className={`text-lg font-sans font-bold truncate max-w-full ${isDark ? 'text-white' : 'text-black'}`}>@{story.username}</div>
+      <div className="text-sm font-serif italic" style={{ color }}>{story.archetype}</div>
+      <div className={`text-xs font-mono ${isDark ? 'text-neutral-500' : 'text-neutral-600'}`}>{story.topLanguages[0]?.name || 'N/A'}</div>
+      {isWinner && <div className="text-[10px] font-mono uppercase tracking-widest text-code-yellow">Winner</div>}
+    </div>
+  );
+
+  return (
+    <SlideLayout gradientStart="#000000" gradientEnd="#171717">
+      <div className="flex-1 flex flex-col items-center justify-center h-full">
+
+        <motion.div
+          ref={posterRef}
+          initial={{ y: 50, opacity: 0, scale: 0.9 }}
+          animate={{ y: 0, opacity: 1, scale: 1 }}
+          transition={{ duration: 0.8, ease: "circOut" }}
+          className={`border-4 w-full max-w-sm flex flex-col ${isDark ? 'bg-neutral-900 border-white shadow-[0_0_50px_rgba(255,255,255,0.1)]' : 'bg-neutral-100 border-black shadow-[0_0_50px_rgba(0,0,0,0.1)]'}`}
+        >
+          <div className={`flex justify-between items-baseline border-b px-6 py-4 ${isDark ? 'border-neutral-700' : 'border-neutral-300'}`}>
+            <h1 className={`text-3xl font-serif italic ${isDark ? 'text-white' : 'text-black'}`}>GitStory</h1>
+            <div className={`text-sm font-mono ${isDark ? 'text-neutral-500' : 'text-neutral-600'}`}>{left.period.label}</div>
+          </div>
+
+          <div className={`flex divide-x ${isDark ? 'divide-neutral-700' : 'divide-neutral-300'}`}>
+            {renderHalf(left, VERSUS_COLORS.left, scoreboard.winner === 'left')}
+            {renderHalf(right, VERSUS_COLORS.right, scoreboard.winner === 'right')}
+          </div>
+
+          <div className={`border-t px-6 py-4 space-y-2 ${isDark ? 'border-neutral-700' : 'border-neutral-300'}`}>
+            {scoreboard.stats.map(stat => (
+              <div key={stat.label} className="flex items-center font-mono text-sm">
+                <span className="flex-1" style={{ color: VERSUS_COLORS.left, opacity: stat.winner === 'right' ? 0.5 : 1 }}>{stat.left.toLocaleString()}</span>
+                <span className={`text-[10px] uppercase tracking-widest ${isDark ? 'text-neutral-500' : 'text-neutral-600'}`}>{stat.label}</span>
+                <span className="flex-1 text-right" style={{ color: VERSUS_COLORS.right, opacity: stat.winner === 'left' ? 0.5 : 1 }}>{stat.right.toLocaleString()}</span>
+              </div>
+            ))}
+          </div>
+
+          <div className={`border-t px-6 py-3 flex justify-between items-center ${isDark ? 'border-neutral-700' : 'border-neutral-300'}`}>
+            <div className={`text-xl font-serif italic ${isDark ? 'text-white' : 'text-black'}`}>
+              {scoreboard.leftWins} – {scoreboard.rightWins}
+            </div>
+            <div className={`text-[10px] font-mono uppercase ${isDark ? 'text-neutral-600' : 'text-neutral-500'}`}>Directed by Both of You</div>
+          </div>
+        </motion.div>
+
+        <motion.button
+          initial={{ opacity: 0 }}
+          animate={{ opacity: 1 }}
+          transition={{ delay: 2 }}
+          className={`mt-8 flex items-center gap-2 px-6 py-3 rounded-full font-bold transition-all active:scale-95 ${
+            hasDownloaded
+              ? "bg-green-500 text-white"
+              : error
+                ? "bg-red-500 text-white"
+                : isDark ? "bg-white text-black hover:bg-neutral-200" : "bg-black text-white hover:bg-neutral-800"
+          }`}
+          onClick={handleDownload}
+          onPointerDown={(e) => e.stopPropagation()}
+          disabled={isDownloading}
+        >
+          {isDownloading ? (
+            <><Loader2 size={18} className="animate-spin" /> Saving...</>
+          ) : hasDownloaded ? (
+            <><Check size={18} /> Saved!</>
+          ) : error ? (
+            <><AlertTriangle size={18} /> {error}</>
+          ) : (
+            <><Download size={18} /> Save</>
+          )}
+        </motion.button>
+
+      </div>
+    </SlideLayout>
+  );
+};
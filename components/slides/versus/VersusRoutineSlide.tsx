@@ -0,0 +1,77 @@
+'use client'
+
+import React from 'react';
+import { motion } from 'framer-motion';
+import { SlideLayout } from '../../SlideLayout';
+import { VersusStoryData } from '../../../types';
+import { TextReveal } from '../../TextReveal';
+import { VERSUS_COLORS } from '../../../constants';
+import { useTheme } from '@/context/ThemeContext';
+
+export const VersusRoutineSlide: React.FC<{ data: VersusStoryData }> = ({ data }) => {
+  const { theme } = useTheme();
+  const isDark = theme === 'dark';
+  const { left, right } = data;
+  const days = ["S", "M", "T", "W", "T", "F", "S"];
+  const maxHeight = 160;
+
+  const leftMax = Math.max(...left.weekdayStats, 1);
+  const rightMax = Math.max(...right.weekdayStats, 1);
+
+  const headline = left.busiestDay === right.busiestDay
+    ? `You both live for ${left.busiestDay}.`
+    : `${left.busiestDay} vs. ${right.busiestDay}.`;
+
+  return (
+    <SlideLayout gradientStart="#374151" gradientEnd="#111827">
+      <div className="flex-1 flex flex-col items-center justify-center">
+
+        <div className="mb-10 text-center">
+          <TextReveal
+            text="Favorite day?"
+            className={`text-xl font-mono mb-4 uppercase tracking-widest justify-center ${isDark ? 'text-neutral-400' : 'text-neutral-600'}`}
+          />
+          <TextReveal
+            text={headline}
+            className={`text-4xl md:text-5xl font-serif italic justify-center ${isDark ? 'text-white' : 'text-neutral-800'}`}
+            delay={0.5}
+          />
+        </div>
+
+        <div className="flex items-end justify-center gap-2 md:gap-4 w-full max-w-xl px-4">
+          {days.map((day, index) => (
+            <div key={index} className="flex flex-col items-center gap-3 flex-1">
+              <div className="flex items-end gap-1 w-full justify-center">
+                {[
+                  { value: left.weekdayStats[index] / leftMax, color: VERSUS_COLORS.left },
+                  { value: right.weekdayStats[index] / rightMax, color: VERSUS_COLORS.right },
+                ].map((bar, side) => (
+                  <motion.div
+                    key={side}
+                    initial={{ height: 0 }}
+                    animate={{ height: Math.max(bar.value * maxHeight, 12) }}
+                    transition={{ delay: 0.8 + index * 0.08 + side * 0.04, duration: 0.6, ease: [0.34, 1.56, 0.64, 1] }}
+                    className="w-full max-w-6 rounded-md"
+                    style={{ backgroundColor: bar.color, opacity: bar.value === 1 ? 1 : 0.55 }}
+                  />
+                ))}
+              </div>
+              <span className={`text-base font-medium ${isDark ? 'text-neutral-500' : 'text-neutral-500'}`}>{day}</span>
+            </div>
+          ))}
+        </div>
+
+        <motion.div
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ delay: 2 }}
+          className="mt-10 flex items-center gap-6 text-sm font-mono"
+        >
+          <span style={{ color: VERSUS_COLORS.left }}>● @{left.username}</span>
+          <span style={{ color: VERSUS_COLORS.right }}>● @{right.username}</span>
+        </motion.div>
+
+      </div>
+    </SlideLayout>
+  );
+};
@@ -0,0 +1,63 @@
+'use client'
+
+import React from 'react';
+import { motion } from 'framer-motion';
+import { SlideLayout } from '../../SlideLayout';
+import { VersusStoryData } from '../../../types';
+import { TextReveal } from '../../TextReveal';
+import { VERSUS_COLORS } from '../../../constants';
+import { useTheme } from '@/context/ThemeContext';
+
+export const VersusTitleSlide: React.FC<{ data: VersusStoryData }> = ({ data }) => {
+  const { theme } = useTheme();
+  const isDark = theme === 'dark';
+  const { left, right } = data;
+
+  const renderFighter = (story: typeof left, color: string, fromX: number) => (
+    <motion.div
+      initial={{ x: fromX, opacity: 0 }}
+      animate={{ x: 0, opacity: 1 }}
+      transition={{ type: "spring", damping: 15, delay: 0.3 }}
+      className="flex flex-col items-center gap-3 flex-1 min-w-0"
+    >
+      <img
+        src={story.avatarUrl}
+        alt={story.username}
+        className="w-24 h-24 rounded-full border-4"
+        style={{ borderColor: color, boxShadow: `0 0 40px ${color}66` }}
+      />
+      <span className={`font-mono text-lg truncate max-w-full ${isDark ? 'text-white' : 'text-black'}`}>@{story.username}</span>
+    </motion.div>
+  );
+
+  return (
+    <SlideLayout gradientStart={VERSUS_COLORS.left} gradientEnd={VERSUS_COLORS.right}>
+      <div className="flex-1 flex flex-col items-center justify-center text-center">
+
+        <TextReveal
+          text={`${left.period.label}. Head to head.`}
+          className={`text-xl font-mono mb-12 uppercase tracking-widest justify-center ${isDark ? 'text-neutral-400' : 'text-neutral-600'}`}
+        />
+
+        <div className="flex items-center justify-center gap-4 w-full max-w-md">
+          {renderFighter(left, VERSUS_COLORS.left, -200)}
+          <motion.span
+            initial={{ scale: 0, rotate: -30 }}
+            animate={{ scale: 1, rotate: 0 }}
+            transition={{ type: "spring", delay: 1 }}
+            className={`text-5xl font-serif italic ${isDark ? 'text-white' : 'text-black'}`}
+          >
+            vs
+          </motion.span>
+          {renderFighter(right, VERSUS_COLORS.right, 200)}
+        </div>
+
+        <TextReveal
+          text="May the best committer win."
+          className={`text-2xl font-sans mt-12 max-w-xs mx-auto justify-center ${isDark ? 'text-neutral-400' : 'text-neutral-600'}`}
+          delay={1.5}
+        />
+      </div>
+    </SlideLayout>
+  );
+};
@@ -0,0 +1,87 @@
+'use client'
+
+import React from 'react';
+import { motion } from 'framer-motion';
+import { ResponsiveContainer, LineChart, Line, YAxis } from 'recharts';
+import { SlideLayout } from '../../SlideLayout';
+import { VersusStoryData } from '../../../types';
+import { TextReveal } from '../../TextReveal';
+import { VERSUS_COLORS } from '../../../constants';
+import { compareStat } from '../../../services/versusService';
+import { useTheme } from '@/context/ThemeContext';
+
+export const VersusVelocitySlide: React.FC<{ data: VersusStoryData }> = ({ data }) => {
+  const { theme } = useTheme();
+  const isDark = theme === 'dark';
+  const { left, right } = data;
+
+  const length = Math.max(left.velocityData.length, right.velocityData.length);
+  const chartData = Array.from({ length }, (_, i) => ({
+    date: left.velocityData[i]?.date || right.velocityData[i]?.date,
+    left: left.velocityData[i]?.commits || 0,
+    right: right.velocityData[i]?.commits || 0,
+  }));
+
+  const winner = compareStat(left.totalCommits, right.totalCommits);
+  const headline = winner === 'tie'
+    ? "Dead even on commits."
+    : `@${winner === 'left' ? left.username : right.username} out-shipped the other.`;
+
+  const rows = [
+    { label: 'Commits', left: left.totalCommits, right: right.totalCommits },
+    { label: 'Longest streak', left: left.longestStreak, right: right.longestStreak },
+  ];
+
+  return (
+    <SlideLayout gradientStart={VERSUS_COLORS.left} gradientEnd={VERSUS_COLORS.right}>
+      <div className="flex-1 flex flex-col justify-center h-full">
+        <div className="mb-6">
+          <TextReveal
+            text="The race."
+            className={`text-5xl font-serif italic mb-2 ${isDark ? 'text-white' : 'text-black'}`}
+          />
+          <TextReveal
+            text={headline}
+            className={`text-xl font-sans ${isDark ? 'text-neutral-400' : 'text-neutral-600'}`}
+            delay={0.5}
+          />
+        </div>
+
+        <motion.div
+          className="h-56 w-full my-6"
+          initial={{ opacity: 0, scaleX: 0 }}
+          animate={{ opacity: 1, scaleX: 1 }}
+          transition={{ delay: 1, duration: 1 }}
+        >
+          <ResponsiveContainer width="100%" height="100%">
+            <LineChart data={chartData}>
+              <YAxis hide domain={['dataMin', 'dataMax']} />
+              <Line type="monotone" dataKey="left" stroke={VERSUS_COLORS.left} strokeWidth={2} dot={false} animationDuration={3000} />
+              <Line type="monotone" dataKey="right" stroke={VERSUS_COLORS.right} strokeWidth={2} dot={false} animationDuration={3000} />
+            </LineChart>
+          </ResponsiveContainer>
+        </motion.div>
+
+        <div className="space-y-3 mt-auto">
+          {rows.map((row, index) => (
+            <motion.div
+              key={row.label}
+              initial={{ opacity: 0, y: 20 }}
+              animate={{ opacity: 1, y: 0 }}
+              transition={{ delay: 2 + index * 0.2 }}
+              className="flex items-center gap-3"
+            >
+              <span className="flex-1 text-right font-mono text-2xl font-bold" style={{ color: VERSUS_COLORS.left, opacity: row.left >= row.right ? 1 : 0.5 }}>
+                {row.left.toLocaleString()}
+              </span>
+              <span className={`w-32 text-center text-xs font-mono uppercase tracking-widest ${isDark ? 'text-neutral-400' : 'text-neutral-600'}`}>{row.label}</span>
+              <span className="flex-1 font-mono text-2xl font-bold" style={{ color: VERSUS_COLORS.right, opacity: row.right >= row.left ? 1 : 0.5 }}>
+                {row.right.toLocaleString()}
+              </span>
+            </motion.div>
+          ))}
+        </div>
+      </div>
+    </SlideLayout>
+  );
+};
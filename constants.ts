@@ -1,7 +1,41 @@
 import { GitStoryData } from "./types";
+import { getYearPeriod, shiftISODate } from "./services/period";
+import { calculateCalendarStats } from "./services/scoringAlgorithms";
 
 export const SLIDE_DURATION_MS = 6000; // 6 seconds per slide
 
+// Accent colors for the two sides of a versus story
+export const VERSUS_COLORS = {
+  left: "#3B82F6",
+  right: "#EC4899",
+};
+
+// GitHub linguist colors, keyed by the language names GitHub reports
+export const LANGUAGE_COLORS: Record<string, string> = {
+  "TypeScript": "#3178C6", "JavaScript": "#F7DF1E", "HTML": "#e34c26", 
+  "CSS": "#563d7c", "Vue": "#41b883", "Svelte": "#ff3e00", "SCSS": "#c6538c",
+  "Less": "#1d365d", "Astro": "#ff5a03", "MDX": "#1b1f24",
+  "Rust": "#dea584", "C": "#555555", "C++": "#f34b7d", "C#": "#178600",
+  "Go": "#00ADD8", "Zig": "#f7a41d", "Assembly": "#6E4C13", "Objective-C": "#438eff",
+  "Java": "#b07219", "Kotlin": "#A97BFF", "Scala": "#c22d40", "Groovy": "#4298b8",
+  "Clojure": "#db5855",
+  "Python": "#3572A5", "Ruby": "#701516", "PHP": "#4F5D95", "Perl": "#0298c3",
+  "Lua": "#000080", "R": "#198CE7", "Julia": "#a270ba", "Elixir": "#6e4a7e",
+  "Erlang": "#B83998", "Haskell": "#5e5086", "OCaml": "#3be133",
+  "Swift": "#F05138", "Dart": "#00B4AB", "Objective-C++": "#6866fb",
+  "Jupyter Notebook": "#DA5B0B", "MATLAB": "#e16737", "SAS": "#B34936",
+  "Shell": "#89e051", "PowerShell": "#012456", "Dockerfile": "#384d54",
+  "Makefile": "#427819", "Nix": "#7e7eff", "HCL": "#844fba",
+  "SQL": "#e38c00", "PLpgSQL": "#336790", "TSQL": "#e38c00", "GraphQL": "#e10098",
+  "Markdown": "#083fa1", "TeX": "#3D6117", "Org": "#77aa99",
+  "F#": "#b845fc", "Crystal": "#000100", "Nim": "#ffc200", "V": "#4f87c4",
+  "Solidity": "#AA6746", "Move": "#4a137a", "Cairo": "#ff4c00",
+  "WASM": "#654ff0", "WebAssembly": "#654ff0", "CoffeeScript": "#244776",
+  "Elm": "#60B5CC", "PureScript": "#1D222D", "ReasonML": "#ff5847",
+  "Raku": "#0000fb", "Fortran": "#4d41b1", "COBOL": "#005ca5", "Ada": "#02f88c",
+  "D": "#ba595e", "Vala": "#a56de2", "Hack": "#878787", "ActionScript": "#882B0F"
+};
+
 const generateYearlyData = () => {
   const data = [];
   const startDate = new Date('2025-01-01');
@@ -33,6 +67,7 @@ const generateYearlyData = () => {
     data.push({
       date: currentDate.toLocaleDateString('en-US', { month: 'short', day: 'numeric' }),
       commits: commitCount,
+      isoDate: shiftISODate('2025-01-01', i),
     });
   }
   return data;
@@ -64,9 +99,130 @@ export const MOCK_DATA: GitStoryData = {
   username: "creative-dev",
   avatarUrl: "https://picsum.photos/200/200",
   year: 2025,
+  period: getYearPeriod(2025),
   totalCommits: totalCommits,
+  totalContributions: totalCommits + 45 + 12 + 8,
   longestStreak: maxStreak || 12,
   busiestDay: "Thursdays",
+  calendarStats: calculateCalendarStats(velocityData.map(day => ({ date: day.isoDate, count: day.commits }))),
+  pullRequests: {
+    opened: 45,
+    merged: 38,
+    closed: 4,
+    open: 3,
+    mergeRate: 84,
+    medianHoursToMerge: 19.5,
+    largest: {
+      title: "Shard KV cache across devices",
+      url: "https://github.com/creative-dev/neuro-net-v2/pull/214",
+      repo: "creative-dev/neuro-net-v2",
+      state: "MERGED",
+      createdAt: "2025-06-02T21:14:00Z",
+      mergedAt: "2025-06-09T10:02:00Z",
+      additions: 2841,
+      deletions: 967,
+    },
+    topRepos: [
+      { repo: "creative-dev/neuro-net-v2", count: 21 },
+      { repo: "creative-dev/rust-gpu-compute", count: 14 },
+      { repo: "creative-dev/ai-code-reviewer", count: 6 },
+    ],
+  },
+  reviews: {
+    total: 8,
+    approved: 5,
+    changesRequested: 1,
+    commented: 2,
+    comments: 23,
+    pullRequestsReviewed: 6,
+    medianHoursToFirstReview: 3.5,
+    topRepos: [
+      { repo: "creative-dev/neuro-net-v2", count: 5 },
+      { repo: "creative-dev/ai-code-reviewer", count: 3 },
+    ],
+    topAuthors: [
+      { login: "tensor-tom", count: 4 },
+      { login: "gpu-grace", count: 3 },
+      { login: "dependabot", count: 1 },
+    ],
+  },
+  collaborators: [
+    { login: "tensor-tom", name: "tensor-tom", avatarUrl: "https://picsum.photos/seed/tensor-tom/96/96", reviewedByYou: 4, reviewedYou: 11, coAuthored: 3, weight: 18 },
+    { login: "gpu-grace", name: "gpu-grace", avatarUrl: "https://picsum.photos/seed/gpu-grace/96/96", reviewedByYou: 3, reviewedYou: 7, coAuthored: 0, weight: 10 },
+    { login: "lin-alg", name: "lin-alg", avatarUrl: "https://picsum.photos/seed/lin-alg/96/96", reviewedByYou: 0, reviewedYou: 5, coAuthored: 1, weight: 6 },
+    { login: null, name: "Priya Raman", avatarUrl: null, reviewedByYou: 0, reviewedYou: 0, coAuthored: 4, weight: 4 },
+  ],
+  guestRepos: [
+    { name: "pytorch/pytorch", url: "https://github.com/pytorch/pytorch", description: "Tensors and dynamic neural networks in Python", stars: 84000, language: "Python", ownerAvatarUrl: "https://picsum.photos/seed/pytorch/96/96", mergedPullRequests: 3 },
+    { name: "huggingface/transformers", url: "https://github.com/huggingface/transformers", description: "State-of-the-art machine learning for PyTorch, TensorFlow and JAX", stars: 136000, language: "Python", ownerAvatarUrl: "https://picsum.photos/seed/huggingface/96/96", mergedPullRequests: 2 },
+    { name: "rust-lang/rust-analyzer", url: "https://github.com/rust-lang/rust-analyzer", description: "A Rust compiler front-end for IDEs", stars: 14500, language: "Rust", ownerAvatarUrl: "https://picsum.photos/seed/rust-lang/96/96", mergedPullRequests: 1 },
+  ],
+  shipping: {
+    releases: 9,
+    prereleases: 2,
+    tags: 4,
+    repos: [
+      { repo: "creative-dev/neuro-net-v2", count: 7 },
+      { repo: "creative-dev/rust-gpu-compute", count: 4 },
+      { repo: "creative-dev/ai-code-reviewer", count: 2 },
+    ],
+    timeline: [
+      ["2025-01-21", "creative-dev/rust-gpu-compute", "v0.8.0", true],
+      ["2025-02-14", "creative-dev/neuro-net-v2", "v2.0.0-rc.1", true],
+      ["2025-03-03", "creative-dev/neuro-net-v2", "v2.0.0", true],
+      ["2025-04-11", "creative-dev/ai-code-reviewer", "v1.2.0", false],
+      ["2025-05-19", "creative-dev/neuro-net-v2", "v2.1.0", true],
+      ["2025-06-09", "creative-dev/neuro-net-v2", "v2.2.0-beta", true],
+      ["2025-06-30", "creative-dev/rust-gpu-compute", "v0.9.0", false],
+      ["2025-07-22", "creative-dev/neuro-net-v2", "v2.2.0", true],
+      ["2025-08-27", "creative-dev/ai-code-reviewer", "v1.3.0", true],
+      ["2025-09-15", "creative-dev/rust-gpu-compute", "v0.9.1", false],
+      ["2025-10-08", "creative-dev/neuro-net-v2", "v2.3.0", true],
+      ["2025-11-17", "creative-dev/rust-gpu-compute", "v1.0.0", true],
+      ["2025-12-12", "creative-dev/neuro-net-v2", "v2.3.1", false],
+    ].map(([date, repo, tag, isRelease]) => ({ date: `${date}T12:00:00Z`, repo: repo as string, tag: tag as string, isRelease: isRelease as boolean })),
+    topAssets: [
+      { repo: "creative-dev/neuro-net-v2", tag: "v2.0.0", name: "neuronet-linux-x86_64.tar.gz", downloads: 18420 },
+      { repo: "creative-dev/neuro-net-v2", tag: "v2.0.0", name: "neuronet-macos-arm64.tar.gz", downloads: 11305 },
+      { repo: "creative-dev/rust-gpu-compute", tag: "v1.0.0", name: "rgc-cli-linux.zip", downloads: 2210 },
+    ],
+  },
+  pipeline: {
+    runs: 1386,
+    successRate: 87,
+    minutes: 9420,
+    mostFailed: { workflow: "GPU integration tests", repo: "creative-dev/rust-gpu-compute", failures: 64 },
+    repos: [
+      { repo: "creative-dev/neuro-net-v2", count: 812 },
+      { repo: "creative-dev/rust-gpu-compute", count: 431 },
+      { repo: "creative-dev/ai-code-reviewer", count: 143 },
+    ],
+    isSampled: false,
+  },
+  commitMessages: {
+    total: 1460,
+    averageLength: 38,
+    conventionalShare: 64,
+    types: [
+      { type: "feat", count: 402 },
+      { type: "fix", count: 288 },
+      { type: "chore", count: 131 },
+      { type: "refactor", count: 70 },
+      { type: "docs", count: 41 },
+      { type: "test", count: 28 },
+    ],
+    topWords: [
+      ["kernel", 142], ["cache", 121], ["inference", 98], ["batch", 87], ["tensor", 80], ["shard", 64],
+      ["tokenizer", 58], ["cuda", 55], ["benchmark", 49], ["memory", 44], ["quantize", 40], ["scheduler", 36],
+      ["notebook", 31], ["readme", 29], ["latency", 27], ["streaming", 24], ["gradient", 21], ["lint", 18],
+    ].map(([word, count]) => ({ word: word as string, count: count as number })),
+    topEmoji: [
+      { emoji: "🚀", count: 37 },
+      { emoji: "🐛", count: 22 },
+    ],
+    lowEffortCount: 117,
+    lowEffortShare: 8,
+  },
   topLanguages: [
     { name: "Python", color: "#3572A5", percentage: 55, count: 55 },
     { name: "Jupyter Notebook", color: "#DA5B0B", percentage: 25, count: 25 },
@@ -127,18 +283,41 @@ export const MOCK_DATA: GitStoryData = {
   productivity: {
     timeOfDay: "Late Night",
     peakHour: 23,
+    hourlyCounts: [96, 71, 40, 18, 6, 3, 4, 9, 22, 41, 58, 66, 49, 62, 74, 79, 71, 63, 57, 69, 88, 112, 131, 144],
   },
   archetype: "The Grid Painter",
   contributionBreakdown: {
     commits: totalCommits,
     prs: 45,
     issues: 12,
-    reviews: 8
+    reviews: 8,
+    issueStats: {
+      opened: 12,
+      closed: 9,
+      open: 3,
+      closedInOwnRepos: 27,
+      medianHoursToClose: 52,
+      topLabels: [
+        { name: "bug", count: 6 },
+        { name: "performance", count: 4 },
+        { name: "good first issue", count: 2 },
+      ],
+    },
   },
   community: {
     followers: 1204,
     following: 85,
     totalStars: 4500,
+    starGrowth: {
+      total: 1240,
+      byRepo: [
+        { repo: "creative-dev/neuro-net-v2", count: 860 },
+        { repo: "creative-dev/ai-code-reviewer", count: 240 },
+        { repo: "creative-dev/rust-gpu-compute", count: 140 },
+      ],
+      byMonth: [38, 41, 52, 64, 220, 310, 118, 96, 88, 79, 70, 64].map((count, i) => ({ month: `2025-${String(i + 1).padStart(2, '0')}`, count })),
+      isPartial: false,
+    },
     publicRepos: 42
   }
 };
\ No newline at end of file
@@ -1,6 +1,38 @@
 import { AuthOptions } from "next-auth";
 import GitHubProvider from "next-auth/providers/github";
 import GitLabProvider from "next-auth/providers/gitlab";
+import { OAuthConfig } from "next-auth/providers/oauth";
+import { GITHUB_REST_API, GITHUB_WEB_URL, isGitHubEnterprise } from "./githubHost";
+
+// Self-hosted GitLab: the OAuth application must be registered on this instance
+const GITLAB_URL = (process.env.NEXT_PUBLIC_GITLAB_URL || "https://gitlab.com").replace(/\/+$/, "");
+
+const BITBUCKET_API_BASE = process.env.NEXT_PUBLIC_BITBUCKET_API_BASE || "https://api.bitbucket.org/2.0";
+
+// next-auth has no built-in Bitbucket provider, so configure the OAuth 2.0 endpoints directly
+const BitbucketProvider: OAuthConfig<any> = {
+  id: "bitbucket",
+  name: "Bitbucket",
+  type: "oauth",
+  clientId: process.env.BITBUCKET_CLIENT_ID || "",
+  clientSecret: process.env.BITBUCKET_CLIENT_SECRET || "",
+  authorization: {
+    url: "https://bitbucket.org/site/oauth2/authorize",
+    params: {
+      scope: "account repository pullrequest issue",
+    },
+  },
+  token: "https://bitbucket.org/site/oauth2/access_token",
+  userinfo: `${BITBUCKET_API_BASE}/user`,
+  profile(profile) {
+    return {
+      id: profile.uuid,
+      name: profile.display_name,
+      email: null,
+      image: profile.links?.avatar?.href,
+    };
+  },
+};
 
 export const authOptions: AuthOptions = {
   providers: [
@@ -8,20 +40,35 @@ export const authOptions: AuthOptions = {
       clientId: process.env.GITHUB_CLIENT_ID || "",
       clientSecret: process.env.GITHUB_CLIENT_SECRET || "",
       authorization: {
+        url: `${GITHUB_WEB_URL}/login/oauth/authorize`,
         params: {
           scope: "read:user user:email repo read:org",
         },
       },
+      token: `${GITHUB_WEB_URL}/login/oauth/access_token`,
+      // The stock userinfo request also calls api.github.com/user/emails, which would send GHES tokens to github.com
+      ...(isGitHubEnterprise && {
+        userinfo: {
+          url: `${GITHUB_REST_API}/user`,
+          async request({ client, tokens }) {
+            return client.userinfo(tokens.access_token as string);
+          },
+        },
+      }),
     }),
     GitLabProvider({
       clientId: process.env.GITLAB_CLIENT_ID || "",
       clientSecret: process.env.GITLAB_CLIENT_SECRET || "",
       authorization: {
+        url: `${GITLAB_URL}/oauth/authorize`,
         params: {
           scope: "read_user read_api read_repository",
         },
       },
+      token: `${GITLAB_URL}/oauth/token`,
+      userinfo: `${GITLAB_URL}/api/v4/user`,
     }),
+    BitbucketProvider,
   ],
   callbacks: {
     async jwt({ token, account, profile }) {
@@ -31,7 +78,7 @@ export const authOptions: AuthOptions = {
         token.provider = account.provider;
       }
       if (profile) {
-        token.username = (profile as any).login || (profile as any).username;
+        token.username = (profile as any).login || (profile as any).username || (profile as any).nickname;
       }
       return token;
     },
@@ -0,0 +1,23 @@
+// GitHub Enterprise Server base URL, e.g. https://github.example.com. Unset means github.com.
+export const GITHUB_ENTERPRISE_URL = (process.env.NEXT_PUBLIC_GITHUB_ENTERPRISE_URL || "").trim().replace(/\/+$/, "");
+
+export const isGitHubEnterprise = GITHUB_ENTERPRISE_URL !== "";
+
+export const GITHUB_WEB_URL = GITHUB_ENTERPRISE_URL || "https://github.com";
+
+// GHES serves REST under /api/v3 and GraphQL under /api/graphql
+export const GITHUB_REST_API = isGitHubEnterprise ? `${GITHUB_ENTERPRISE_URL}/api/v3` : "https://api.github.com";
+export const GITHUB_GRAPHQL_API = isGitHubEnterprise ? `${GITHUB_ENTERPRISE_URL}/api/graphql` : "https://api.github.com/graphql";
+
+// True only for URLs on the configured REST API, so tokens never leak to other hosts
+export const isGitHubApiUrl = (url: string): boolean => {
+  try {
+    const target = new URL(url);
+    const api = new URL(GITHUB_REST_API);
+    return target.protocol === api.protocol
+      && target.host === api.host
+      && (api.pathname === "/" || target.pathname === api.pathname || target.pathname.startsWith(`${api.pathname}/`));
+  } catch {
+    return false;
+  }
+};
@@ -0,0 +1,43 @@
+// The only GraphQL query the proxy signs with its server tokens: calendar and totals, no repository names
+export const CONTRIBUTION_CALENDAR_QUERY = `
+    query($username: String!, $from: DateTime!, $to: DateTime!) {
+        user(login: $username) {
+            contributionsCollection(from: $from, to: $to) {
+                contributionCalendar {
+                    totalContributions
+                    weeks {
+                        contributionDays {
+                            date
+                            contributionCount
+                        }
+                    }
+                }
+                totalCommitContributions
+                totalPullRequestContributions
+                totalIssueContributions
+                totalPullRequestReviewContributions
+                restrictedContributionsCount
+            }
+        }
+    }
+`;
+
+// GitStory only reads; nothing sent through the proxy may write as anyone. Only the keywords that open
+// top-level definitions count, so repo names or strings that say "mutation" are fine
+export const isReadOnlyQuery = (query: unknown): query is string => {
+    if (typeof query !== "string") return false;
+    const source = query
+        .replace(/"""[\s\S]*?"""/g, '""')
+        .replace(/"(?:[^"\\\n]|\\.)*"/g, '""')
+        .replace(/#[^\n]*/g, "");
+
+    let depth = 0;
+    let topLevel = "";
+    for (const char of source) {
+        if (char === "{") depth++;
+        else if (char === "}") depth--;
+        if (depth === 0 && char !== "}") topLevel += char;
+        else if (depth === 1 && char === "{") topLevel += " ";
+    }
+    return !/\b(mutation|subscription)\b/.test(topLevel);
+};
@@ -0,0 +1,241 @@
+import { Collaborator, GuestRepo, IssueRecord, IssueStats, PullRequestRecord, PullRequestStats, PipelineStats, ReleaseRecord, ReviewRecord, ReviewStats, ShippingStats, StarGrowth, StoryPeriod, WorkflowRunRecord } from '../types';
+import { getElapsedPeriodDays, isWithinPeriod } from './period';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+const median = (values: number[]): number | null => {
+  if (values.length === 0) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[middle - 1] + sorted[middle]) / 2 : sorted[middle];
+};
+
+const hoursBetween = (from: string, to: string) => (new Date(to).getTime() - new Date(from).getTime()) / HOUR_MS;
+
+const roundHours = (hours: number | null) => hours === null ? null : Math.round(hours * 10) / 10;
+
+export const formatHours = (hours: number): string => {
+  if (hours < 1) return `${Math.max(1, Math.round(hours * 60))} min`;
+  if (hours < 48) return `${Math.round(hours)} h`;
+  return `${Math.round(hours / 24)} days`;
+};
+
+// Most frequent keys, highest first
+const topCounts = (keys: string[], topN: number): [string, number][] => {
+  const counts: Record<string, number> = {};
+  keys.forEach(key => { counts[key] = (counts[key] || 0) + 1; });
+  return Object.entries(counts).sort((a, b) => b[1] - a[1]).slice(0, topN);
+};
+
+// Everything is measured on PRs opened in the period; ones merged after it still count as merged
+export function calculatePullRequestStats(pullRequests: PullRequestRecord[], topN: number = 3): PullRequestStats {
+  const merged = pullRequests.filter(pr => pr.state === 'MERGED');
+  const hoursToMerge = merged
+    .filter(pr => pr.mergedAt)
+    .map(pr => hoursBetween(pr.createdAt, pr.mergedAt as string))
+    .filter(hours => hours >= 0);
+
+  const largest = pullRequests.reduce<PullRequestRecord | null>((biggest, pr) =>
+    !biggest || pr.additions + pr.deletions > biggest.additions + biggest.deletions ? pr : biggest, null);
+
+  return {
+    opened: pullRequests.length,
+    merged: merged.length,
+    closed: pullRequests.filter(pr => pr.state === 'CLOSED').length,
+    open: pullRequests.filter(pr => pr.state === 'OPEN').length,
+    mergeRate: pullRequests.length > 0 ? Math.round((merged.length / pullRequests.length) * 100) : 0,
+    medianHoursToMerge: roundHours(median(hoursToMerge)),
+    largest,
+    topRepos: topCounts(pullRequests.map(pr => pr.repo), topN).map(([repo, count]) => ({ repo, count })),
+  };
+}
+
+// Pending reviews were never submitted, so they don't count
+export function calculateReviewStats(reviews: ReviewRecord[], topN: number = 3): ReviewStats {
+  const submitted = reviews.filter(r => r.state !== 'PENDING');
+
+  // Response time uses the first review on each PR; later rounds answer pushes, not the request
+  const firstReviews = new Map<string, ReviewRecord>();
+  submitted.forEach(review => {
+    const first = firstReviews.get(review.pullRequestUrl);
+    if (!first || review.submittedAt < first.submittedAt) firstReviews.set(review.pullRequestUrl, review);
+  });
+  const hoursToFirstReview = Array.from(firstReviews.values())
+    .filter(r => r.requestedAt)
+    .map(r => hoursBetween(r.requestedAt as string, r.submittedAt))
+    .filter(hours => hours >= 0);
+
+  return {
+    total: submitted.length,
+    approved: submitted.filter(r => r.state === 'APPROVED').length,
+    changesRequested: submitted.filter(r => r.state === 'CHANGES_REQUESTED').length,
+    commented: submitted.filter(r => r.state === 'COMMENTED').length,
+    comments: submitted.reduce((sum, r) => sum + r.comments, 0),
+    pullRequestsReviewed: firstReviews.size,
+    medianHoursToFirstReview: roundHours(median(hoursToFirstReview)),
+    topRepos: topCounts(submitted.map(r => r.repo), topN).map(([repo, count]) => ({ repo, count })),
+    topAuthors: topCounts(submitted.flatMap(r => r.pullRequestAuthor ? [r.pullRequestAuthor] : []), topN)
+      .map(([login, count]) => ({ login, count })),
+  };
+}
+
+export function calculateIssueStats(issues: IssueRecord[], closedInOwnRepos: number | null, topN: number = 3): IssueStats {
+  const closed = issues.filter(issue => issue.state === 'CLOSED');
+  const hoursToClose = closed
+    .filter(issue => issue.closedAt)
+    .map(issue => hoursBetween(issue.createdAt, issue.closedAt as string))
+    .filter(hours => hours >= 0);
+
+  return {
+    opened: issues.length,
+    closed: closed.length,
+    open: issues.length - closed.length,
+    closedInOwnRepos,
+    medianHoursToClose: roundHours(median(hoursToClose)),
+    topLabels: topCounts(issues.flatMap(issue => issue.labels), topN).map(([name, count]) => ({ name, count })),
+  };
+}
+
+const CO_AUTHOR_TRAILER = /^co-authored-by:\s*(.*?)\s*<([^>]+)>\s*$/gim;
+
+export function parseCoAuthors(message: string): { name: string; email: string }[] {
+  return Array.from(message.matchAll(CO_AUTHOR_TRAILER)).map(match => ({ name: match[1] || match[2], email: match[2].trim() }));
+}
+
+// GitHub's noreply addresses are "login@" or "id+login@", which is enough for a login and an avatar
+const NOREPLY_EMAIL = /^(?:(\d+)\+)?([^@]+)@users\.noreply\.github\.com$/i;
+
+const isBot = (login: string) => /\[bot\]$/i.test(login);
+
+export function calculateCollaborators(
+  username: string,
+  sources: { pullRequests?: PullRequestRecord[]; reviews?: ReviewRecord[]; coAuthors?: { name: string; email: string }[] },
+  topN: number = 8
+): Collaborator[] {
+  const people = new Map<string, Collaborator>();
+  const self = username.toLowerCase();
+
+  const credit = (login: string | null, name: string, avatarUrl: string | null, key: 'reviewedByYou' | 'reviewedYou' | 'coAuthored', email?: string) => {
+    if (login && (login.toLowerCase() === self || isBot(login))) return;
+    const id = login ? login.toLowerCase() : `email:${(email || name).toLowerCase()}`;
+    const person = people.get(id) || { login, name, avatarUrl, reviewedByYou: 0, reviewedYou: 0, coAuthored: 0, weight: 0 };
+    if (!person.avatarUrl && avatarUrl) person.avatarUrl = avatarUrl;
+    person[key]++;
+    person.weight++;
+    people.set(id, person);
+  };
+
+  // A PR counts once per person however many review rounds it took
+  const reviewedPRs = new Set<string>();
+  (sources.reviews || []).forEach(review => {
+    if (!review.pullRequestAuthor || review.state === 'PENDING' || reviewedPRs.has(review.pullRequestUrl)) return;
+    reviewedPRs.add(review.pullRequestUrl);
+    credit(review.pullRequestAuthor, review.pullRequestAuthor, review.pullRequestAuthorAvatarUrl || null, 'reviewedByYou');
+  });
+
+  (sources.pullRequests || []).forEach(pr => {
+    const seen = new Set<string>();
+    (pr.reviewers || []).forEach(reviewer => {
+      if (seen.has(reviewer.login)) return;
+      seen.add(reviewer.login);
+      credit(reviewer.login, reviewer.login, reviewer.avatarUrl, 'reviewedYou');
+    });
+  });
+
+  (sources.coAuthors || []).forEach(({ name, email }) => {
+    const noreply = email.match(NOREPLY_EMAIL);
+    if (noreply) {
+      const avatarUrl = noreply[1] ? `https://avatars.githubusercontent.com/u/${noreply[1]}?v=4` : null;
+      credit(noreply[2], name, avatarUrl, 'coAuthored');
+    } else {
+      credit(null, name, null, 'coAuthored', email);
+    }
+  });
+
+  return Array.from(people.values())
+    .sort((a, b) => b.weight - a.weight)
+    .slice(0, topN);
+}
+
+// A PR landed in a famous project is a bigger deal, but so is a steady stream of them into a small one
+export function rankGuestRepos(repos: GuestRepo[], topN: number = 5): GuestRepo[] {
+  const score = (repo: GuestRepo) => (Math.log10(repo.stars + 1) + 1) * repo.mergedPullRequests;
+  return repos
+    .filter(repo => repo.mergedPullRequests > 0)
+    .sort((a, b) => score(b) - score(a))
+    .slice(0, topN);
+}
+
+export function calculateStarGrowth(stars: { repo: string; starredAt: string }[], period: StoryPeriod, isPartial: boolean, topN: number = 3): StarGrowth {
+  const inPeriod = stars.filter(star => isWithinPeriod(star.starredAt, period));
+
+  const byMonth: Record<string, number> = {};
+  getElapsedPeriodDays(period).forEach(date => { byMonth[date.slice(0, 7)] = 0; });
+  inPeriod.forEach(star => {
+    const month = star.starredAt.slice(0, 7);
+    byMonth[month] = (byMonth[month] || 0) + 1;
+  });
+
+  return {
+    total: inPeriod.length,
+    byRepo: topCounts(inPeriod.map(star => star.repo), topN).map(([repo, count]) => ({ repo, count })),
+    byMonth: Object.keys(byMonth).sort().map(month => ({ month, count: byMonth[month] })),
+    isPartial,
+  };
+}
+
+// Tags that already have a release are counted once, as the release
+export function calculateShippingStats(
+  releases: ReleaseRecord[],
+  tags: { repo: string; name: string; date: string }[],
+  period: StoryPeriod,
+  topN: number = 3
+): ShippingStats {
+  const shipped = releases.filter(release => isWithinPeriod(release.publishedAt, period));
+  const releasedTags = new Set(releases.map(release => `${release.repo}@${release.tag}`));
+  const bareTags = tags.filter(tag => !releasedTags.has(`${tag.repo}@${tag.name}`) && isWithinPeriod(tag.date, period));
+
+  const timeline = [
+    ...shipped.map(release => ({ date: release.publishedAt, repo: release.repo, tag: release.tag, isRelease: true })),
+    ...bareTags.map(tag => ({ date: tag.date, repo: tag.repo, tag: tag.name, isRelease: false })),
+  ].sort((a, b) => a.date.localeCompare(b.date));
+
+  return {
+    releases: shipped.length,
+    prereleases: shipped.filter(release => release.isPrerelease).length,
+    tags: bareTags.length,
+    repos: topCounts(timeline.map(entry => entry.repo), topN).map(([repo, count]) => ({ repo, count })),
+    timeline,
+    topAssets: shipped
+      .flatMap(release => release.assets.map(asset => ({ repo: release.repo, tag: release.tag, name: asset.name, downloads: asset.downloads })))
+      .filter(asset => asset.downloads > 0)
+      .sort((a, b) => b.downloads - a.downloads)
+      .slice(0, topN),
+  };
+}
+
+const FAILED_CONCLUSIONS = ['failure', 'timed_out'];
+const UNJUDGED_CONCLUSIONS = ['skipped', 'neutral'];
+
+export function calculatePipelineStats(runs: WorkflowRunRecord[], totalRuns: number = runs.length, topN: number = 3): PipelineStats {
+  const finished = runs.filter(run => run.conclusion && !UNJUDGED_CONCLUSIONS.includes(run.conclusion));
+  const passed = finished.filter(run => run.conclusion === 'success').length;
+  const minutes = runs.reduce((sum, run) => sum + Math.max(0, hoursBetween(run.startedAt, run.updatedAt) * 60), 0);
+
+  const failuresByWorkflow = new Map<string, { workflow: string; repo: string; failures: number }>();
+  runs.filter(run => run.conclusion && FAILED_CONCLUSIONS.includes(run.conclusion)).forEach(run => {
+    const key = `${run.repo}:${run.workflow}`;
+    const entry = failuresByWorkflow.get(key) || { workflow: run.workflow, repo: run.repo, failures: 0 };
+    entry.failures++;
+    failuresByWorkflow.set(key, entry);
+  });
+
+  return {
+    runs: Math.max(totalRuns, runs.length),
+    successRate: finished.length > 0 ? Math.round((passed / finished.length) * 100) : 0,
+    minutes: Math.round(minutes),
+    mostFailed: Array.from(failuresByWorkflow.values()).sort((a, b) => b.failures - a.failures)[0] || null,
+    repos: topCounts(runs.map(run => run.repo), topN).map(([repo, count]) => ({ repo, count })),
+    isSampled: totalRuns > runs.length,
+  };
+}
@@ -0,0 +1,150 @@
+import { ActivityRepository } from "../types";
+import { getHourOfDay, getPeriodStart, isWithinPeriod } from "./period";
+import { StoryProvider } from "./storyPipeline";
+
+// Point this at a local mock of the REST API during development
+export const BITBUCKET_API_BASE = process.env.NEXT_PUBLIC_BITBUCKET_API_BASE || "https://api.bitbucket.org/2.0";
+
+// Commits are read repo by repo, so cap the work for very large workspaces
+const MAX_ACTIVE_REPOS = 20;
+const MAX_COMMIT_PAGES = 5;
+
+// Follows Bitbucket's `next` links until the predicate says stop or the page budget runs out
+const fetchPaged = async (url: string, headers: HeadersInit, maxPages: number, shouldContinue?: (page: any[]) => boolean): Promise<any[]> => {
+  const values: any[] = [];
+  let next: string | undefined = url;
+  let pages = 0;
+
+  while (next && pages < maxPages) {
+    const res: Response = await fetch(next, { headers });
+    if (!res.ok) break;
+    const data: any = await res.json();
+    const page = Array.isArray(data.values) ? data.values : [];
+    values.push(...page);
+    pages++;
+    if (shouldContinue && !shouldContinue(page)) break;
+    next = data.next;
+  }
+
+  return values;
+};
+
+export const bitbucketProvider: StoryProvider = {
+  id: 'bitbucket',
+  label: 'Bitbucket',
+  fetchActivity: async ({ token, timeZone }, period) => {
+    if (!token) {
+      throw new Error("Sign in with Bitbucket to generate a Bitbucket story.");
+    }
+
+    const headers: HeadersInit = {
+      'Authorization': `Bearer ${token}`,
+      'Accept': 'application/json',
+    };
+
+    // 1. Fetch User Info
+    const userRes = await fetch(`${BITBUCKET_API_BASE}/user`, { headers });
+
+    if (userRes.status === 401) {
+      throw new Error("Invalid Bitbucket token. Please sign in again.");
+    }
+    if (!userRes.ok) {
+      throw new Error(`Failed to fetch user data. (Status: ${userRes.status})`);
+    }
+
+    const user = await userRes.json();
+    const isMe = (account: any) => !!account && (account.uuid === user.uuid || account.account_id === user.account_id);
+
+    // 2. Every workspace the user belongs to, then each workspace's repositories
+    const permissions = await fetchPaged(`${BITBUCKET_API_BASE}/user/permissions/workspaces?pagelen=100`, headers, 3);
+    const workspaces: string[] = Array.from(new Set(
+      permissions.map((p: any) => p.workspace?.slug).filter(Boolean)
+    ));
+
+    const workspaceRepos = await Promise.all(workspaces.map(slug =>
+      fetchPaged(`${BITBUCKET_API_BASE}/repositories/${encodeURIComponent(slug)}?pagelen=100&sort=-updated_on`, headers, 3)
+    ));
+    const rawRepos = workspaceRepos.flat();
+
+    // Bitbucket repository -> provider-neutral repository
+    const repos: ActivityRepository[] = rawRepos.map((r: any) => ({
+      name: r.name,
+      description: r.description,
+      url: r.links?.html?.href || "",
+      language: r.language || null,
+      stars: 0,
+      forks: 0,
+      watchers: 0,
+      openIssues: 0,
+      size: 0,
+      topics: [],
+      isFork: !!r.parent,
+      isArchived: false,
+      createdAt: r.created_on,
+      pushedAt: r.updated_on,
+    }));
+
+    const periodStart = getPeriodStart(period);
+    const active = rawRepos
+      .map((raw: any, index: number) => ({ raw, repo: repos[index] }))
+      .filter(({ repo }) => !!repo.pushedAt && new Date(repo.pushedAt) >= periodStart)
+      .slice(0, MAX_ACTIVE_REPOS);
+
+    // 3. Commits, pull requests and issues from the active repositories
+    const createdRange = `created_on >= ${period.start}T00:00:00 AND created_on <= ${period.end}T23:59:59`;
+    const dateCommits: Record<string, number> = {};
+    const hourCounts: Record<number, number> = {};
+    let prCount = 0;
+    let issueCount = 0;
+    let reviewCount = 0;
+
+    await Promise.all(active.map(async ({ raw, repo }) => {
+      const base = `${BITBUCKET_API_BASE}/repositories/${raw.full_name}`;
+      const [commits, pullRequests, reviewed, watchers, issues] = await Promise.all([
+        // Commits come newest first, so stop once a page reaches back past the period
+        fetchPaged(`${base}/commits?pagelen=100`, headers, MAX_COMMIT_PAGES, page =>
+          page.length > 0 && new Date(page[page.length - 1].date) >= periodStart
+        ),
+        fetchPaged(`${base}/pullrequests?pagelen=50&state=OPEN&state=MERGED&state=DECLINED&q=${encodeURIComponent(`author.uuid="${user.uuid}" AND ${createdRange}`)}`, headers, 2),
+        fetchPaged(`${base}/pullrequests?pagelen=50&state=OPEN&state=MERGED&state=DECLINED&q=${encodeURIComponent(`reviewers.uuid="${user.uuid}" AND ${createdRange}`)}`, headers, 2),
+        fetch(`${base}/watchers?pagelen=1`, { headers }).then(res => res.ok ? res.json() : null).catch(() => null),
+        raw.has_issues
+          ? fetchPaged(`${base}/issues?pagelen=50&q=${encodeURIComponent(`reporter.uuid="${user.uuid}" AND ${createdRange}`)}`, headers, 2)
+          : Promise.resolve([]),
+      ]);
+
+      const mine = commits.filter((c: any) => isMe(c.author?.user) && isWithinPeriod(c.date, period));
+      mine.forEach((c: any) => {
+        const dateStr = new Date(c.date).toISOString().split('T')[0];
+        // Commit dates keep the author's offset
+        const h = getHourOfDay(c.date, timeZone);
+        dateCommits[dateStr] = (dateCommits[dateStr] || 0) + 1;
+        hourCounts[h] = (hourCounts[h] || 0) + 1;
+      });
+
+      repo.commits = mine.length;
+      // Bitbucket has no stars, watchers are the closest signal
+      repo.stars = watchers?.size || 0;
+      repo.watchers = watchers?.size || 0;
+      prCount += pullRequests.length;
+      reviewCount += reviewed.length;
+      issueCount += issues.length;
+    }));
+
+    return {
+      username: user.username || user.nickname || user.display_name,
+      avatarUrl: user.links?.avatar?.href || "",
+      calendar: Object.keys(dateCommits).map(date => ({ date, count: dateCommits[date] })),
+      hourCounts,
+      hourTimeZone: timeZone,
+      prs: prCount,
+      issues: issueCount,
+      reviews: reviewCount,
+      repos,
+      followers: 0,
+      following: 0,
+      publicRepos: rawRepos.filter((r: any) => !r.is_private).length,
+      showRepoCommits: true,
+    };
+  },
+};
@@ -0,0 +1,73 @@
+import { CommitMessageStats } from '../types';
+
+// "feat(parser)!: drop legacy syntax" -> type "feat"; only the spec's types, so "README: ..." doesn't count
+const CONVENTIONAL_SUBJECT = /^(feat|fix|chore|docs|style|refactor|perf|test|build|ci|revert)(\([^)]*\))?!?:\s*/i;
+
+const MERGE_SUBJECT = /^Merge (pull request|branch|remote-tracking branch|tag) /;
+
+// Subjects that say nothing about the change
+const LOW_EFFORT_SUBJECT = /^(wip\b.*|fix(ed)? typos?|typos?|oops.*|minor( fix(es)?| changes?)?|updates?|fix(es)?|changes?|stuff|tmp|temp|test(ing)?|asdf+|\.+|-+|misc|cleanup|save|commit)$/i;
+
+const EMOJI = /\p{Extended_Pictographic}(\u{FE0F}|\u{200D}\p{Extended_Pictographic})*/gu;
+const EMOJI_SHORTCODE = /:[a-z0-9_+-]+:/g;
+
+const STOP_WORDS = new Set([
+  'the', 'and', 'for', 'with', 'from', 'into', 'onto', 'that', 'this', 'when', 'not', 'are', 'was', 'but',
+  'all', 'some', 'more', 'use', 'via', 'per', 'its', 'it\'s', 'also', 'now', 'out', 'off', 'too', 'than',
+  'add', 'adds', 'added', 'update', 'updates', 'updated', 'fix', 'fixes', 'fixed', 'remove', 'removed',
+  'feat', 'chore', 'docs', 'refactor', 'test', 'tests', 'style', 'perf', 'build', 'merge', 'branch',
+]);
+
+const subjectOf = (message: string) => message.split('\n')[0].trim();
+
+const countTop = (items: string[], topN: number): { value: string; count: number }[] => {
+  const counts: Record<string, number> = {};
+  items.forEach(item => { counts[item] = (counts[item] || 0) + 1; });
+  return Object.entries(counts)
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, topN)
+    .map(([value, count]) => ({ value, count }));
+};
+
+// Works on subject lines: bodies are often generated (changelogs, trailers) and drown out the author's voice
+export function analyzeCommitMessages(messages: string[], topWords: number = 30): CommitMessageStats {
+  const subjects = messages.map(subjectOf).filter(subject => subject && !MERGE_SUBJECT.test(subject));
+  const total = subjects.length;
+
+  const types: string[] = [];
+  const words: string[] = [];
+  const emoji: string[] = [];
+  let lowEffort = 0;
+  let length = 0;
+
+  subjects.forEach(subject => {
+    length += subject.length;
+    const conventional = subject.match(CONVENTIONAL_SUBJECT);
+    if (conventional) types.push(conventional[1].toLowerCase());
+
+    const text = conventional ? subject.slice(conventional[0].length) : subject;
+    if (LOW_EFFORT_SUBJECT.test(text.trim())) lowEffort++;
+
+    emoji.push(...(subject.match(EMOJI) || []), ...(subject.match(EMOJI_SHORTCODE) || []));
+
+    text
+      .replace(EMOJI, ' ')
+      .replace(EMOJI_SHORTCODE, ' ')
+      .toLowerCase()
+      .split(/[^a-z0-9'_-]+/)
+      .map(word => word.replace(/^['_-]+|['_-]+$/g, ''))
+      .filter(word => word.length >= 3 && !/^\d+$/.test(word) && !STOP_WORDS.has(word))
+      .forEach(word => words.push(word));
+  });
+
+  return {
+    total,
+    averageLength: total > 0 ? Math.round(length / total) : 0,
+    conventionalShare: total > 0 ? Math.round((types.length / total) * 100) : 0,
+    types: countTop(types, 6).map(({ value, count }) => ({ type: value, count })),
+    topWords: countTop(words, topWords).map(({ value, count }) => ({ word: value, count })),
+    topEmoji: countTop(emoji, 5).map(({ value, count }) => ({ emoji: value, count })),
+    lowEffortCount: lowEffort,
+    lowEffortShare: total > 0 ? Math.round((lowEffort / total) * 100) : 0,
+  };
+}
@@ -0,0 +1,59 @@
+import { ComparisonStoryData, GitStoryData, LanguageShift, Repository, StoryPeriod } from "../types";
+import { getPreviousPeriod } from "./period";
+
+const repoKey = (repo: Repository) => (repo.url || repo.name).toLowerCase();
+
+const calculateLanguageShifts = (current: GitStoryData, previous: GitStoryData): LanguageShift[] => {
+  const shifts = new Map<string, LanguageShift>();
+
+  // "Other" holds different languages each period, so it isn't a shift
+  previous.topLanguages.filter(lang => !lang.isOther).forEach(lang => {
+    shifts.set(lang.name, { name: lang.name, color: lang.color, previousPercentage: lang.percentage, currentPercentage: 0 });
+  });
+
+  current.topLanguages.filter(lang => !lang.isOther).forEach(lang => {
+    const existing = shifts.get(lang.name);
+    shifts.set(lang.name, {
+      name: lang.name,
+      color: lang.color,
+      previousPercentage: existing?.previousPercentage || 0,
+      currentPercentage: lang.percentage,
+    });
+  });
+
+  return Array.from(shifts.values())
+    .sort((a, b) => Math.abs(b.currentPercentage - b.previousPercentage) - Math.abs(a.currentPercentage - a.previousPercentage));
+};
+
+export const buildComparison = (current: GitStoryData, previous: GitStoryData): ComparisonStoryData => {
+  const previousRepoKeys = new Set(previous.topRepos.map(repoKey));
+  const currentRepoKeys = new Set(current.topRepos.map(repoKey));
+
+  return {
+    current,
+    previous,
+    commitDelta: current.totalCommits - previous.totalCommits,
+    commitGrowth: previous.totalCommits > 0
+      ? Math.round(((current.totalCommits - previous.totalCommits) / previous.totalCommits) * 100)
+      : null,
+    streakDelta: current.longestStreak - previous.longestStreak,
+    languageShifts: calculateLanguageShifts(current, previous),
+    newRepos: current.topRepos.filter(repo => !previousRepoKeys.has(repoKey(repo))),
+    droppedRepos: previous.topRepos.filter(repo => !currentRepoKeys.has(repoKey(repo))),
+    archetypeChanged: current.archetype !== previous.archetype,
+  };
+};
+
+// Builds both stories with the same provider so the two periods are measured the same way
+export const fetchComparisonStory = async (
+  fetchStory: (period: StoryPeriod) => Promise<GitStoryData>,
+  period: StoryPeriod
+): Promise<ComparisonStoryData> => {
+  // One after the other, so the two periods' searches don't burst past the search rate limit together
+  const current = await fetchStory(period);
+  const previous = await fetchStory(getPreviousPeriod(period));
+
+  return buildComparison(current, previous);
+};
+
+export const formatDelta = (delta: number): string => delta > 0 ? `+${delta.toLocaleString()}` : delta < 0 ? `−${Math.abs(delta).toLocaleString()}` : '±0';
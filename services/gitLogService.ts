@@ -0,0 +1,199 @@
+import { ActivityRepository, GitLogSource } from "../types";
+import { getHourOfDay, isWithinPeriod } from "./period";
+import { StoryProvider } from "./storyPipeline";
+
+// Run inside a repository. %aI keeps the author's UTC offset, so commit hours stay in their local time.
+export const GIT_LOG_COMMAND = "git log --all --no-merges --date=iso-strict --pretty=format:'--%H|%aI|%aN|%aE|%s' --numstat";
+
+// Several repositories in one file: prefix each log with a header line
+export const GIT_LOG_BUNDLE_COMMAND = `for d in */; do echo "### repo: \${d%/}"; git -C "$d" ${GIT_LOG_COMMAND.replace(/^git /, '')}; echo; done`;
+
+interface LocalCommit {
+  hash: string;
+  date: string; // Author date in ISO 8601 with the author's offset
+  author: string;
+  email: string;
+  subject: string;
+  repo: string;
+  files: { path: string; additions: number; deletions: number }[];
+}
+
+const COMMIT_LINE = /^--([0-9a-f]{7,40})\|([^|]+)\|([^|]*)\|([^|]*)\|(.*)$/;
+const REPO_HEADER = /^###\s*repo:\s*(.+)$/i;
+const NUMSTAT_LINE = /^(\d+|-)\t(\d+|-)\t(.+)$/;
+
+const EXTENSION_LANGUAGES: Record<string, string> = {
+  ts: "TypeScript", tsx: "TypeScript", mts: "TypeScript", cts: "TypeScript",
+  js: "JavaScript", jsx: "JavaScript", mjs: "JavaScript", cjs: "JavaScript",
+  html: "HTML", htm: "HTML", css: "CSS", scss: "SCSS", less: "Less",
+  vue: "Vue", svelte: "Svelte", astro: "Astro", mdx: "MDX",
+  py: "Python", rb: "Ruby", php: "PHP", pl: "Perl", lua: "Lua", r: "R", jl: "Julia",
+  go: "Go", rs: "Rust", zig: "Zig", c: "C", h: "C",
+  cpp: "C++", cc: "C++", cxx: "C++", hpp: "C++", hh: "C++", cs: "C#", m: "Objective-C",
+  java: "Java", kt: "Kotlin", kts: "Kotlin", scala: "Scala", groovy: "Groovy", clj: "Clojure",
+  swift: "Swift", dart: "Dart", ex: "Elixir", exs: "Elixir", erl: "Erlang",
+  hs: "Haskell", ml: "OCaml", fs: "F#", elm: "Elm", nix: "Nix", sol: "Solidity",
+  sh: "Shell", bash: "Shell", zsh: "Shell", ps1: "PowerShell", sql: "SQL",
+  tf: "HCL", ipynb: "Jupyter Notebook",
+};
+
+// "src/{old.ts => new.ts}" and "old.ts => new.ts" are renames, keep the new path
+const resolveRenamedPath = (path: string): string =>
+  path.replace(/\{[^}]* => ([^}]*)\}/, '$1').replace(/^.* => /, '').replace(/\/\//g, '/');
+
+export const getLanguageForPath = (path: string): string | null => {
+  const fileName = resolveRenamedPath(path).split('/').pop() || '';
+  const dot = fileName.lastIndexOf('.');
+  if (dot <= 0) return null;
+  return EXTENSION_LANGUAGES[fileName.slice(dot + 1).toLowerCase()] || null;
+};
+
+export const parseGitLog = (source: GitLogSource): LocalCommit[] => {
+  const commits: LocalCommit[] = [];
+  let repo = source.name;
+  let current: LocalCommit | null = null;
+
+  source.content.split(/\r?\n/).forEach(line => {
+    const header = line.match(REPO_HEADER);
+    if (header) {
+      repo = header[1].trim();
+      current = null;
+      return;
+    }
+
+    const commit = line.match(COMMIT_LINE);
+    if (commit) {
+      current = {
+        hash: commit[1],
+        date: commit[2].trim(),
+        author: commit[3].trim(),
+        email: commit[4].trim().toLowerCase(),
+        subject: commit[5],
+        repo,
+        files: [],
+      };
+      commits.push(current);
+      return;
+    }
+
+    const stat = line.match(NUMSTAT_LINE);
+    if (stat && current) {
+      // Binary files report "-" for both counts
+      current.files.push({
+        path: stat[3],
+        additions: stat[1] === '-' ? 0 : parseInt(stat[1], 10),
+        deletions: stat[2] === '-' ? 0 : parseInt(stat[2], 10),
+      });
+    }
+  });
+
+  return commits.filter(c => !isNaN(new Date(c.date).getTime()));
+};
+
+// Initials on a solid background, since local logs carry no avatar
+const createAvatar = (name: string): string => {
+  const initials = name.split(/[\s._-]+/).filter(Boolean).slice(0, 2).map(p => p[0].toUpperCase()).join('') || '?';
+  const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="128" height="128"><rect width="128" height="128" fill="#3B82F6"/><text x="50%" y="50%" dy=".35em" text-anchor="middle" font-family="sans-serif" font-size="52" fill="#FFFFFF">${initials}</text></svg>`;
+  return `data:image/svg+xml;charset=utf-8,${encodeURIComponent(svg)}`;
+};
+
+// The username field holds the author names or emails identifying the user; empty keeps every commit
+export const gitLogProvider: StoryProvider = {
+  id: 'local',
+  label: 'Git log',
+  fetchActivity: async ({ username: authorList, logs = [], timeZone }, period) => {
+    const authors = authorList.split(',');
+    const identities = authors.map(a => a.trim().toLowerCase()).filter(Boolean);
+    const seen = new Set<string>();
+
+    const allCommits = logs.flatMap(parseGitLog);
+    if (allCommits.length === 0) {
+      throw new Error(`No commits found. Generate the log with: ${GIT_LOG_COMMAND}`);
+    }
+
+    // The same commit can appear in several clones of one repository
+    const commits = allCommits.filter(c => {
+      if (seen.has(c.hash)) return false;
+      seen.add(c.hash);
+      return identities.length === 0
+        || identities.includes(c.email)
+        || identities.includes(c.author.toLowerCase());
+    }).filter(c => isWithinPeriod(c.date.slice(0, 10), period));
+
+    if (commits.length === 0) {
+      throw new Error(`No commits by ${identities.join(', ') || 'anyone'} found in ${period.label}. Check the author name or email.`);
+    }
+
+    // A. Calendar in the author's local time, hours too unless a zone was picked
+    const dateCommits: Record<string, number> = {};
+    const hourCounts: Record<number, number> = {};
+
+    commits.forEach(c => {
+      const localDate = c.date.slice(0, 10);
+      const hour = getHourOfDay(c.date, timeZone);
+      dateCommits[localDate] = (dateCommits[localDate] || 0) + 1;
+      if (!isNaN(hour)) hourCounts[hour] = (hourCounts[hour] || 0) + 1;
+    });
+
+    // B. Languages weighted by lines changed, repos by commit count
+    const langLines: Record<string, number> = {};
+    const repoStats: Record<string, { commits: number; lines: Record<string, number>; firstCommit: string; lastCommit: string }> = {};
+
+    commits.forEach(c => {
+      const repo = repoStats[c.repo] || (repoStats[c.repo] = { commits: 0, lines: {}, firstCommit: c.date, lastCommit: c.date });
+      repo.commits++;
+      if (c.date < repo.firstCommit) repo.firstCommit = c.date;
+      if (c.date > repo.lastCommit) repo.lastCommit = c.date;
+
+      c.files.forEach(file => {
+        const language = getLanguageForPath(file.path);
+        if (!language) return;
+        const lines = file.additions + file.deletions;
+        langLines[language] = (langLines[language] || 0) + lines;
+        repo.lines[language] = (repo.lines[language] || 0) + lines;
+      });
+    });
+
+    const repos: ActivityRepository[] = Object.entries(repoStats).map(([name, stats]) => ({
+      name,
+      description: `${stats.commits.toLocaleString()} ${stats.commits === 1 ? 'commit' : 'commits'} in ${period.label}.`,
+      url: "",
+      language: Object.entries(stats.lines).sort((a, b) => b[1] - a[1])[0]?.[0] || null,
+      stars: 0,
+      forks: 0,
+      watchers: 0,
+      openIssues: 0,
+      size: 0,
+      topics: [],
+      isFork: false,
+      isArchived: false,
+      createdAt: stats.firstCommit,
+      pushedAt: stats.lastCommit,
+      commits: stats.commits,
+    }));
+
+    // Most frequent author name among the matched commits
+    const nameCounts: Record<string, number> = {};
+    commits.forEach(c => { nameCounts[c.author] = (nameCounts[c.author] || 0) + 1; });
+    const username = Object.entries(nameCounts).sort((a, b) => b[1] - a[1])[0][0] || "you";
+
+    // Pull requests, issues, reviews and followers live on the forge, not in git history
+    return {
+      username,
+      avatarUrl: createAvatar(username),
+      calendar: Object.keys(dateCommits).map(date => ({ date, count: dateCommits[date] })),
+      hourCounts,
+      hourTimeZone: timeZone,
+      prs: 0,
+      issues: 0,
+      reviews: 0,
+      repos,
+      followers: 0,
+      following: 0,
+      publicRepos: repos.length,
+      languageWeights: langLines,
+      showRepoCommits: true,
+      commitMessages: commits.map(c => c.subject),
+    };
+  },
+};
@@ -0,0 +1,160 @@
+import { ActivityRepository } from "../types";
+import { getHourOfDay, getLocalTimeZone, getPeriodStart, isWithinPeriod } from "./period";
+import { StoryProvider } from "./storyPipeline";
+import { calculateLanguageWeights } from "./scoringAlgorithms";
+
+export const CODEBERG_URL = "https://codeberg.org";
+
+const MAX_FEED_PAGES = 10;
+const FEED_PAGE_SIZE = 50;
+const MAX_LANGUAGE_REPOS = 10;
+
+// Accepts "codeberg.org", "https://git.example.com/" or a pasted API URL
+export const normalizeInstanceUrl = (input: string): string => {
+  let url = input.trim() || CODEBERG_URL;
+  if (!/^https?:\/\//i.test(url)) url = `https://${url}`;
+  return url.replace(/\/+$/, '').replace(/\/api\/v1$/, '');
+};
+
+export const giteaProvider: StoryProvider = {
+  id: 'gitea',
+  label: 'Gitea / Forgejo',
+  fetchActivity: async ({ username, token, instanceUrl = CODEBERG_URL, timeZone }, period) => {
+    const instance = normalizeInstanceUrl(instanceUrl);
+    const apiBase = `${instance}/api/v1`;
+    const headers: HeadersInit = {
+      'Accept': 'application/json',
+    };
+    if (token) {
+      headers['Authorization'] = `token ${token}`;
+    }
+
+    // 1. Fetch User Info
+    const userRes = await fetch(`${apiBase}/users/${encodeURIComponent(username)}`, { headers });
+
+    if (userRes.status === 404) {
+      throw new Error(`User "${username}" not found on ${instance}.`);
+    }
+    if (userRes.status === 401 || userRes.status === 403) {
+      throw new Error("Invalid token for this instance. Please check your token and try again.");
+    }
+    if (!userRes.ok) {
+      throw new Error(`Failed to fetch user data. (Status: ${userRes.status})`);
+    }
+
+    const user = await userRes.json();
+    const login = user.login || username;
+
+    // 2. Heatmap and repositories in parallel
+    const [heatmapRes, reposRes1, reposRes2] = await Promise.all([
+      fetch(`${apiBase}/users/${login}/heatmap`, { headers }),
+      fetch(`${apiBase}/users/${login}/repos?limit=50&page=1`, { headers }),
+      fetch(`${apiBase}/users/${login}/repos?limit=50&page=2`, { headers }),
+    ]);
+
+    const heatmap = heatmapRes.ok ? await heatmapRes.json() : [];
+    const r1 = reposRes1.ok ? await reposRes1.json() : [];
+    const r2 = reposRes2.ok ? await reposRes2.json() : [];
+    const repos = [...(Array.isArray(r1) ? r1 : []), ...(Array.isArray(r2) ? r2 : [])];
+
+    // 3. Activity feed, newest first, until it reaches back past the period
+    const periodStart = getPeriodStart(period);
+    const activities: any[] = [];
+    for (let page = 1; page <= MAX_FEED_PAGES; page++) {
+      const feedRes = await fetch(`${apiBase}/users/${login}/activities/feeds?only-performed-by=true&limit=${FEED_PAGE_SIZE}&page=${page}`, { headers });
+      if (!feedRes.ok) break;
+      const feed = await feedRes.json();
+      if (!Array.isArray(feed) || feed.length === 0) break;
+      activities.push(...feed);
+      if (feed.length < FEED_PAGE_SIZE || new Date(feed[feed.length - 1].created) < periodStart) break;
+    }
+    const events = activities.filter((a: any) => isWithinPeriod(a.created, period));
+
+    // Heatmap entries are unix timestamps, possibly several per day
+    const dateCommits: Record<string, number> = {};
+    if (Array.isArray(heatmap)) {
+      heatmap.forEach((entry: any) => {
+        const dateStr = new Date(entry.timestamp * 1000).toISOString().split('T')[0];
+        if (!isWithinPeriod(dateStr, period)) return;
+        dateCommits[dateStr] = (dateCommits[dateStr] || 0) + (entry.contributions || 0);
+      });
+    }
+
+    // Feed times are in the server's zone, so hours are read in the chosen zone or the browser's
+    const hourTimeZone = timeZone || getLocalTimeZone();
+    const hourCounts: Record<number, number> = {};
+    const repoPushes: Record<string, number> = {};
+    let prCount = 0;
+    let issueCount = 0;
+    let reviewCount = 0;
+
+    events.forEach((e: any) => {
+      switch (e.op_type) {
+        case 'commit_repo': {
+          const h = getHourOfDay(e.created, hourTimeZone);
+          hourCounts[h] = (hourCounts[h] || 0) + 1;
+          if (e.repo?.full_name) repoPushes[e.repo.full_name] = (repoPushes[e.repo.full_name] || 0) + 1;
+          break;
+        }
+        case 'create_pull_request':
+          prCount++;
+          break;
+        case 'create_issue':
+          issueCount++;
+          break;
+        case 'approve_pull_request':
+        case 'reject_pull_request':
+        case 'comment_pull':
+          reviewCount++;
+          break;
+      }
+    });
+
+    // Gitea repository -> provider-neutral repository
+    const activityRepos: ActivityRepository[] = repos.map((r: any) => ({
+      name: r.name,
+      description: r.description,
+      url: r.html_url,
+      language: r.language || null,
+      stars: r.stars_count || 0,
+      forks: r.forks_count || 0,
+      watchers: r.watchers_count || 0,
+      openIssues: r.open_issues_count || 0,
+      size: r.size || 0,
+      topics: r.topics || [],
+      isFork: !!r.fork,
+      isArchived: !!r.archived,
+      createdAt: r.created_at,
+      pushedAt: r.updated_at,
+    }));
+
+    // Languages by bytes, weighted by how often the user pushed to each repo
+    const repoLanguages = await Promise.all(Object.entries(repoPushes)
+      .sort((a, b) => b[1] - a[1])
+      .slice(0, MAX_LANGUAGE_REPOS)
+      .map(async ([fullName, pushes]) => {
+        const res = await fetch(`${apiBase}/repos/${fullName}/languages`, { headers }).catch(() => null);
+        const languages: Record<string, number> = res?.ok ? await res.json() : {};
+        const owned = activityRepos.find((_, i) => repos[i].full_name === fullName);
+        if (owned) owned.languages = languages;
+        return { languages, commits: pushes };
+      }));
+    const languageWeights = calculateLanguageWeights(repoLanguages);
+
+    return {
+      username: login,
+      avatarUrl: user.avatar_url,
+      calendar: Object.keys(dateCommits).map(date => ({ date, count: dateCommits[date] })),
+      hourCounts,
+      hourTimeZone,
+      prs: prCount,
+      issues: issueCount,
+      reviews: reviewCount,
+      repos: activityRepos,
+      followers: user.followers_count || 0,
+      following: user.following_count || 0,
+      publicRepos: repos.length,
+      ...(Object.keys(languageWeights).length > 0 && { languageWeights }),
+    };
+  },
+};
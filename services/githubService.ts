@@ -1,47 +1,96 @@
-import { GitStoryData, Language, Repository, ContributionBreakdown, CommunityStats } from "../types";
+import { ActivityRepository, GitStoryData, GuestRepo, IssueRecord, PullRequestRecord, ReleaseRecord, ReviewRecord, StoryPeriod, WorkflowRunRecord } from "../types";
 import { MOCK_DATA } from "../constants";
-import { 
-  calculateLanguageScores, 
-  getTopLanguages, 
-  calculateRepoScore, 
-  calculateArchetype,
-  calculateProductivity 
-} from "./scoringAlgorithms";
+import { GITHUB_WEB_URL, isGitHubEnterprise } from "../lib/githubHost";
+import { CONTRIBUTION_CALENDAR_QUERY } from "../lib/githubQueries";
+import { getDefaultPeriod, getHourOfDay, getLocalTimeZone, getPeriodYear, getPeriodYears, isWithinPeriod, shiftISODate, toSearchRange } from "./period";
+import { StoryProvider, fetchStory, rankRepositories } from "./storyPipeline";
+import { calculateLanguageWeights } from "./scoringAlgorithms";
+import { parseCoAuthors } from "./activityAnalytics";
 
 const GITHUB_API_BASE = "/api/github";
-const makeGitHubUrl = (endpoint: string) => `${GITHUB_API_BASE}?endpoint=${encodeURIComponent(endpoint)}`;
+export const makeGitHubUrl = (endpoint: string) => `${GITHUB_API_BASE}?endpoint=${encodeURIComponent(endpoint)}`;
 const CONTRIB_API = "https://github-contributions-api.jogruber.de/v4";
 
 
+// One repository's share of the user's contributions, straight from contributionsCollection
+export type RepoContribution = {
+    fullName: string; // owner/name
+    repository: ActivityRepository;
+    commits: number;
+    pullRequests: number;
+};
 
-const fetchContributionsWithGraphQL = async (username: string, headers: HeadersInit): Promise<{
-    contributions: { date: string; count: number }[];
-    total: Record<string, number>;
-    prCount: number;
-    issueCount: number;
-    reviewCount: number;
-}> => {
-    const query = `
-        query($username: String!) {
-            user(login: $username) {
-                contributionsCollection(from: "2025-01-01T00:00:00Z", to: "2025-12-31T23:59:59Z") {
-                    contributionCalendar {
-                        totalContributions
-                        weeks {
-                            contributionDays {
-                                date
-                                contributionCount
-                            }
+const REPOSITORY_FIELDS = `
+    name
+    nameWithOwner
+    description
+    url
+    primaryLanguage { name }
+    stargazerCount
+    forkCount
+    watchers { totalCount }
+    issues(states: OPEN) { totalCount }
+    diskUsage
+    repositoryTopics(first: 10) { nodes { topic { name } } }
+    isFork
+    isArchived
+    createdAt
+    pushedAt
+`;
+
+// GitHub GraphQL repository -> provider-neutral repository
+const toGraphQLActivityRepository = (repo: any): ActivityRepository => ({
+    name: repo.name,
+    description: repo.description,
+    url: repo.url,
+    language: repo.primaryLanguage?.name || null,
+    stars: repo.stargazerCount || 0,
+    forks: repo.forkCount || 0,
+    watchers: repo.watchers?.totalCount || 0,
+    openIssues: repo.issues?.totalCount || 0,
+    size: repo.diskUsage || 0,
+    topics: (repo.repositoryTopics?.nodes || []).map((n: any) => n.topic.name),
+    isFork: !!repo.isFork,
+    isArchived: !!repo.isArchived,
+    createdAt: repo.createdAt,
+    pushedAt: repo.pushedAt,
+});
+
+const EMPTY_GRAPHQL_RESULT = { contributions: [], total: {}, prCount: -1, issueCount: -1, reviewCount: -1 };
+
+const CONTRIBUTIONS_QUERY = `
+    query($username: String!, $from: DateTime!, $to: DateTime!) {
+        user(login: $username) {
+            contributionsCollection(from: $from, to: $to) {
+                contributionCalendar {
+                    totalContributions
+                    weeks {
+                        contributionDays {
+                            date
+                            contributionCount
                         }
                     }
-                    totalPullRequestContributions
-                    totalIssueContributions
-                    totalPullRequestReviewContributions
+                }
+                totalCommitContributions
+                totalPullRequestContributions
+                totalIssueContributions
+                totalPullRequestReviewContributions
+                restrictedContributionsCount
+                commitContributionsByRepository(maxRepositories: 100) {
+                    repository { ${REPOSITORY_FIELDS} }
+                    contributions { totalCount }
+                }
+                pullRequestContributionsByRepository(maxRepositories: 100) {
+                    repository { ${REPOSITORY_FIELDS} }
+                    contributions { totalCount }
                 }
             }
         }
-    `;
+    }
+`;
 
+// Without per-repository queries, e.g. the calendar-only query, repoContributions comes back empty
+const fetchContributionsWithGraphQL = async (username: string, headers: HeadersInit, period: StoryPeriod, query: string = CONTRIBUTIONS_QUERY): Promise<ContribData> => {
     try {
         const response = await fetch('/api/github', {
             method: 'POST',
@@ -49,25 +98,28 @@ const fetchContributionsWithGraphQL = async (username: string, headers: HeadersI
                 ...headers,
                 'Content-Type': 'application/json',
             },
-            body: JSON.stringify({ query, variables: { username } })
+            body: JSON.stringify({
+                query,
+                variables: { username, from: `${period.start}T00:00:00Z`, to: `${period.end}T23:59:59Z` }
+            })
         });
 
         if (!response.ok) {
             console.warn('GraphQL request failed, falling back to public API');
-            return { contributions: [], total: {}, prCount: -1, issueCount: -1, reviewCount: -1 };
+            return EMPTY_GRAPHQL_RESULT;
         }
 
         const data = await response.json();
         
         if (data.errors) {
             console.warn('GraphQL errors:', data.errors);
-            return { contributions: [], total: {}, prCount: -1, issueCount: -1, reviewCount: -1 };
+            return EMPTY_GRAPHQL_RESULT;
         }
 
 
         const collection = data.data?.user?.contributionsCollection;
         const calendar = collection?.contributionCalendar;
-        if (!calendar) return { contributions: [], total: {}, prCount: -1, issueCount: -1, reviewCount: -1 };
+        if (!calendar) return EMPTY_GRAPHQL_RESULT;
 
         const contributions: { date: string; count: number }[] = [];
         calendar.weeks.forEach((week: any) => {
@@ -79,34 +131,585 @@ const fetchContributionsWithGraphQL = async (username: string, headers: HeadersI
             });
         });
 
+        // Merge commit and pull request contributions per repository
+        const byRepo = new Map<string, RepoContribution>();
+        const addRepoContributions = (entries: any[], key: 'commits' | 'pullRequests') => {
+            (entries || []).forEach((entry: any) => {
+                const fullName = entry.repository.nameWithOwner;
+                const existing = byRepo.get(fullName) || {
+                    fullName,
+                    repository: toGraphQLActivityRepository(entry.repository),
+                    commits: 0,
+                    pullRequests: 0,
+                };
+                existing[key] += entry.contributions?.totalCount || 0;
+                byRepo.set(fullName, existing);
+            });
+        };
+        addRepoContributions(collection.commitContributionsByRepository, 'commits');
+        addRepoContributions(collection.pullRequestContributionsByRepository, 'pullRequests');
+
         return { 
             contributions,
-            total: { "2025": calendar.totalContributions },
+            total: { [period.label]: calendar.totalContributions },
             prCount: collection.totalPullRequestContributions || 0,
             issueCount: collection.totalIssueContributions || 0,
-            reviewCount: collection.totalPullRequestReviewContributions || 0
+            reviewCount: collection.totalPullRequestReviewContributions || 0,
+            commitCount: collection.totalCommitContributions || 0,
+            restrictedCount: collection.restrictedContributionsCount || 0,
+            repoContributions: Array.from(byRepo.values()),
         };
     } catch (error) {
         console.warn('Failed to fetch contributions via GraphQL:', error);
-        return { contributions: [], total: {}, prCount: -1, issueCount: -1, reviewCount: -1 };
+        return EMPTY_GRAPHQL_RESULT;
     }
 };
 
-export const fetchUserStory = async (username: string, token?: string): Promise<GitStoryData> => {
-  if (username.toLowerCase() === 'demo') {
-      return new Promise((resolve) => setTimeout(() => resolve(MOCK_DATA), 1500));
-  }
+// The public contributions API only serves whole calendar years, so fetch each year the period touches
+const fetchPublicContributions = async (username: string, period: StoryPeriod): Promise<{
+    contributions: { date: string; count: number }[];
+    total: Record<string, number>;
+}> => {
+    const responses = await Promise.all(getPeriodYears(period).map(year =>
+        fetch(`/api/github?url=${encodeURIComponent(`${CONTRIB_API}/${username}?y=${year}`)}`)
+            .then(res => res.ok ? res.json() : { contributions: [], total: {} })
+            .catch(() => ({ contributions: [], total: {} }))
+    ));
 
+    const contributions = responses
+        .flatMap((data: any) => Array.isArray(data.contributions) ? data.contributions : [])
+        .filter((day: { date: string }) => isWithinPeriod(day.date, period));
 
-  const headers: HeadersInit = {
-    'Accept': 'application/vnd.github.v3+json',
-  };
-  if (token) {
-    headers['Authorization'] = `Bearer ${token}`;
-  }
+    return {
+        contributions,
+        total: { [period.label]: contributions.reduce((sum: number, day: { count: number }) => sum + (day.count || 0), 0) }
+    };
+};
 
-  try {
-    const userRes = await fetch(makeGitHubUrl(`/users/${username}`), { headers });
+export type ContribData = {
+    contributions: { date: string; count: number }[];
+    total: Record<string, number>;
+    prCount?: number;
+    issueCount?: number;
+    reviewCount?: number;
+    commitCount?: number; // Commits alone, only the calendar total mixes in PRs, issues and reviews
+    restrictedCount?: number; // Private contributions GitHub only reports as a number
+    repoContributions?: RepoContribution[];
+};
+
+// Daily contribution calendar for the period: GraphQL when authenticated, public API otherwise
+// On GHES the proxy signs the anonymous calendar query with its own tokens instead
+export const fetchContributionData = (username: string, period: StoryPeriod, token?: string): Promise<ContribData> =>
+    token
+        ? fetchContributionsWithGraphQL(username, { 'Accept': 'application/vnd.github.v3+json', 'Authorization': `Bearer ${token}` }, period)
+        : isGitHubEnterprise
+            ? fetchContributionsWithGraphQL(username, { 'Accept': 'application/vnd.github.v3+json' }, period, CONTRIBUTION_CALENDAR_QUERY)
+            : fetchPublicContributions(username, period);
+
+// contributionsCollection pages 100 contributions at a time; 500 covers all but the busiest years
+const MAX_CONTRIBUTION_PAGES = 5;
+
+// Walks one of contributionsCollection's paged connections; needs GraphQL, so signed in only
+const fetchContributionNodes = async <T>(
+    connection: string,
+    nodeFields: string,
+    username: string,
+    period: StoryPeriod,
+    headers: HeadersInit,
+    toRecord: (node: any) => T | null
+): Promise<T[]> => {
+    const query = `
+        query($username: String!, $from: DateTime!, $to: DateTime!, $cursor: String) {
+            user(login: $username) {
+                contributionsCollection(from: $from, to: $to) {
+                    ${connection}(first: 100, after: $cursor) {
+                        pageInfo { hasNextPage endCursor }
+                        nodes { ${nodeFields} }
+                    }
+                }
+            }
+        }
+    `;
+
+    const records: T[] = [];
+    let cursor: string | null = null;
+
+    for (let page = 0; page < MAX_CONTRIBUTION_PAGES; page++) {
+        const response: Response = await fetch('/api/github', {
+            method: 'POST',
+            headers: { ...headers, 'Content-Type': 'application/json' },
+            body: JSON.stringify({
+                query,
+                variables: { username, from: `${period.start}T00:00:00Z`, to: `${period.end}T23:59:59Z`, cursor }
+            })
+        });
+        if (!response.ok) break;
+
+        const data: any = await response.json();
+        const nodes = data.data?.user?.contributionsCollection?.[connection];
+        if (data.errors || !nodes) break;
+
+        (nodes.nodes || []).forEach((node: any) => {
+            const record = node ? toRecord(node) : null;
+            if (record) records.push(record);
+        });
+
+        if (!nodes.pageInfo?.hasNextPage) break;
+        cursor = nodes.pageInfo.endCursor;
+    }
+
+    return records;
+};
+
+// GraphQL drops the "[bot]" suffix REST uses, which is the only thing telling apps apart from people
+const toLogin = (actor: { __typename?: string; login: string }) =>
+    actor.__typename === 'Bot' ? `${actor.login}[bot]` : actor.login;
+
+// The user's PRs opened in the period with their outcome and size
+export const fetchPullRequestContributions = (username: string, period: StoryPeriod, headers: HeadersInit): Promise<PullRequestRecord[]> =>
+    fetchContributionNodes('pullRequestContributions', `
+        pullRequest {
+            title
+            url
+            state
+            createdAt
+            mergedAt
+            additions
+            deletions
+            repository { nameWithOwner }
+            author { login }
+            reviews(first: 50) { nodes { author { __typename login avatarUrl } } }
+        }
+    `, username, period, headers, ({ pullRequest: pr }) => pr && {
+        title: pr.title,
+        url: pr.url,
+        repo: pr.repository?.nameWithOwner || "",
+        state: pr.state,
+        createdAt: pr.createdAt,
+        mergedAt: pr.mergedAt,
+        additions: pr.additions || 0,
+        deletions: pr.deletions || 0,
+        reviewers: (pr.reviews?.nodes || [])
+            .map((review: any) => review?.author)
+            .filter((author: any) => author?.login && author.login !== pr.author?.login)
+            .map((author: any) => ({ login: toLogin(author), avatarUrl: author.avatarUrl || null })),
+    });
+
+// The user's reviews in the period, with when they were asked for one on that PR
+export const fetchReviewContributions = (username: string, period: StoryPeriod, headers: HeadersInit): Promise<ReviewRecord[]> =>
+    fetchContributionNodes('pullRequestReviewContributions', `
+        pullRequestReview {
+            state
+            submittedAt
+            createdAt
+            comments { totalCount }
+            pullRequest {
+                url
+                author { __typename login avatarUrl }
+                repository { nameWithOwner }
+                timelineItems(itemTypes: REVIEW_REQUESTED_EVENT, first: 25) {
+                    nodes {
+                        ... on ReviewRequestedEvent {
+                            createdAt
+                            requestedReviewer { ... on User { login } }
+                        }
+                    }
+                }
+            }
+        }
+    `, username, period, headers, ({ pullRequestReview: review }) => {
+        if (!review) return null;
+        const requests = (review.pullRequest?.timelineItems?.nodes || []).filter((e: any) => e?.createdAt);
+        // Team requests have no login; use them only when the user wasn't asked by name
+        const ownRequests = requests.filter((e: any) => e.requestedReviewer?.login?.toLowerCase() === username.toLowerCase());
+        const requestedAt = (ownRequests.length > 0 ? ownRequests : requests.filter((e: any) => !e.requestedReviewer?.login))
+            .map((e: any) => e.createdAt as string)
+            .sort()[0] || null;
+        return {
+            state: review.state,
+            submittedAt: review.submittedAt || review.createdAt,
+            comments: review.comments?.totalCount || 0,
+            repo: review.pullRequest?.repository?.nameWithOwner || "",
+            pullRequestUrl: review.pullRequest?.url || "",
+            pullRequestAuthor: review.pullRequest?.author ? toLogin(review.pullRequest.author) : null,
+            pullRequestAuthorAvatarUrl: review.pullRequest?.author?.avatarUrl || null,
+            requestedAt,
+        };
+    });
+
+// The user's issues opened in the period with their labels and when they closed
+export const fetchIssueContributions = (username: string, period: StoryPeriod, headers: HeadersInit): Promise<IssueRecord[]> =>
+    fetchContributionNodes('issueContributions', `
+        issue {
+            title
+            url
+            state
+            createdAt
+            closedAt
+            repository { nameWithOwner }
+            labels(first: 10) { nodes { name } }
+        }
+    `, username, period, headers, ({ issue }) => issue && {
+        title: issue.title,
+        url: issue.url,
+        repo: issue.repository?.nameWithOwner || "",
+        state: issue.state,
+        createdAt: issue.createdAt,
+        closedAt: issue.closedAt,
+        labels: (issue.labels?.nodes || []).map((label: any) => label.name),
+    });
+
+// Issues in the user's repos closed during the period, counting only the ones the user closed themselves
+export const fetchIssuesClosedInOwnRepos = async (username: string, period: StoryPeriod, headers: HeadersInit): Promise<number | undefined> => {
+    const query = `
+        query($search: String!, $cursor: String) {
+            search(query: $search, type: ISSUE, first: 100, after: $cursor) {
+                pageInfo { hasNextPage endCursor }
+                nodes {
+                    ... on Issue {
+                        timelineItems(itemTypes: CLOSED_EVENT, last: 1) {
+                            nodes { ... on ClosedEvent { actor { login } } }
+                        }
+                    }
+                }
+            }
+        }
+    `;
+
+    let closedByUser = 0;
+    let cursor: string | null = null;
+
+    for (let page = 0; page < MAX_CONTRIBUTION_PAGES; page++) {
+        const response: Response = await fetch('/api/github', {
+            method: 'POST',
+            headers: { ...headers, 'Content-Type': 'application/json' },
+            body: JSON.stringify({
+                query,
+                variables: { search: `is:issue user:${username} closed:${toSearchRange(period)}`, cursor }
+            })
+        });
+        if (!response.ok) return page === 0 ? undefined : closedByUser;
+
+        const data: any = await response.json();
+        const search = data.data?.search;
+        if (data.errors || !search) return page === 0 ? undefined : closedByUser;
+
+        (search.nodes || []).forEach((node: any) => {
+            const closer = node?.timelineItems?.nodes?.[0]?.actor?.login;
+            if (closer?.toLowerCase() === username.toLowerCase()) closedByUser++;
+        });
+
+        if (!search.pageInfo?.hasNextPage) break;
+        cursor = search.pageInfo.endCursor;
+    }
+
+    return closedByUser;
+};
+
+// Search pages for merged external PRs, and how many of those repos get looked up for stars
+const MAX_GUEST_PR_PAGES = 3;
+const MAX_GUEST_REPOS = 10;
+
+// Repos the user doesn't own where their PRs were merged during the period; search works signed out too
+export const fetchGuestRepos = async (username: string, period: StoryPeriod, headers: HeadersInit): Promise<GuestRepo[]> => {
+    const mergedByRepo = new Map<string, number>();
+
+    for (let page = 1; page <= MAX_GUEST_PR_PAGES; page++) {
+        const res = await fetch(makeGitHubUrl(`/search/issues?q=type:pr+is:merged+author:${username}+-user:${username}+merged:${toSearchRange(period)}&per_page=100&page=${page}`), { headers });
+        if (!res.ok) break;
+        const data = await res.json();
+        const items = Array.isArray(data.items) ? data.items : [];
+        items.forEach((item: any) => {
+            const fullName = (item.repository_url || "").split('/repos/')[1];
+            if (fullName) mergedByRepo.set(fullName, (mergedByRepo.get(fullName) || 0) + 1);
+        });
+        if (items.length < 100) break;
+    }
+
+    const candidates = Array.from(mergedByRepo.entries())
+        .sort((a, b) => b[1] - a[1])
+        .slice(0, MAX_GUEST_REPOS);
+
+    const repos = await Promise.all(candidates.map(async ([fullName, mergedPullRequests]) => {
+        const res = await fetch(makeGitHubUrl(`/repos/${fullName}`), { headers }).catch(() => null);
+        const repo = res?.ok ? await res.json() : null;
+        return {
+            name: fullName,
+            url: repo?.html_url || `${GITHUB_WEB_URL}/${fullName}`,
+            description: repo?.description || null,
+            stars: repo?.stargazers_count || 0,
+            language: repo?.language || null,
+            ownerAvatarUrl: repo?.owner?.avatar_url || null,
+            mergedPullRequests,
+        };
+    }));
+
+    return repos;
+};
+
+// Stargazers come oldest first, so each repo is read backwards from its last page until the period starts;
+// the budget is shared so a very popular repo can't eat the rate limit on its own
+const MAX_STAR_REPOS = 10;
+const MAX_STARGAZER_PAGES = 30;
+
+const getLastPage = (link: string | null): number => {
+    const match = link?.match(/[?&]page=(\d+)[^>]*>;\s*rel="last"/);
+    return match ? parseInt(match[1], 10) : 1;
+};
+
+// When each of the user's most-starred repos was starred during the period
+export const fetchStarEvents = async (repos: { fullName: string; stars: number }[], period: StoryPeriod, headers: HeadersInit): Promise<{ stars: { repo: string; starredAt: string }[]; isPartial: boolean }> => {
+    const starHeaders: HeadersInit = { ...headers, 'Accept': 'application/vnd.github.star+json' };
+    const periodStart = `${period.start}T00:00:00Z`;
+    const stars: { repo: string; starredAt: string }[] = [];
+    let pages = MAX_STARGAZER_PAGES;
+    let isPartial = false;
+
+    const fetchPage = async (fullName: string, page: number) => {
+        pages--;
+        const res = await fetch(makeGitHubUrl(`/repos/${fullName}/stargazers?per_page=100&page=${page}`), { headers: starHeaders });
+        if (!res.ok) return null;
+        const data = await res.json();
+        return { items: Array.isArray(data) ? data : [], link: res.headers.get('Link') };
+    };
+
+    const starredRepos = repos.filter(r => r.stars > 0).sort((a, b) => b.stars - a.stars);
+    if (starredRepos.length > MAX_STAR_REPOS) isPartial = true;
+
+    for (const repo of starredRepos.slice(0, MAX_STAR_REPOS)) {
+        if (pages <= 0) {
+            isPartial = true;
+            break;
+        }
+        const first = await fetchPage(repo.fullName, 1);
+        if (!first) continue;
+
+        for (let page = getLastPage(first.link); page >= 1; page--) {
+            const result = page === 1 ? first : pages > 0 ? await fetchPage(repo.fullName, page) : null;
+            if (!result) {
+                isPartial = true;
+                break;
+            }
+            // Without the star media type there are no timestamps, and no way to tell growth from lifetime stars
+            if (result.items.some((item: any) => !item.starred_at)) throw new Error('Stargazers returned without starred_at');
+
+            result.items.forEach((item: any) => {
+                if (item.starred_at >= periodStart) stars.push({ repo: repo.fullName, starredAt: item.starred_at });
+            });
+            if (result.items.length === 0 || result.items[0].starred_at < periodStart) break;
+        }
+    }
+
+    return { stars, isPartial };
+};
+
+// Releases, tags and CI runs are read from the user's busiest repos only, a few pages each
+const MAX_BUSIEST_REPOS = 10;
+const MAX_RELEASE_PAGES = 3;
+const MAX_WORKFLOW_RUN_PAGES = 3;
+
+// Releases come newest first, so paging stops once they predate the period;
+// in other people's repos only the releases the user published count
+export const fetchReleases = async (fullNames: string[], login: string, period: StoryPeriod, headers: HeadersInit): Promise<ReleaseRecord[]> => {
+    const periodStart = `${period.start}T00:00:00Z`;
+    const self = login.toLowerCase();
+    const perRepo = await Promise.all(fullNames.map(async fullName => {
+        const isOwned = fullName.split('/')[0].toLowerCase() === self;
+        const releases: ReleaseRecord[] = [];
+        for (let page = 1; page <= MAX_RELEASE_PAGES; page++) {
+            const res = await fetch(makeGitHubUrl(`/repos/${fullName}/releases?per_page=100&page=${page}`), { headers }).catch(() => null);
+            if (!res?.ok) break;
+            const data = await res.json();
+            const items = Array.isArray(data) ? data : [];
+            items
+                .filter((release: any) => !release.draft && release.published_at)
+                .filter((release: any) => isOwned || release.author?.login?.toLowerCase() === self)
+                .forEach((release: any) => releases.push({
+                    repo: fullName,
+                    tag: release.tag_name,
+                    name: release.name || release.tag_name,
+                    url: release.html_url,
+                    publishedAt: release.published_at,
+                    isPrerelease: !!release.prerelease,
+                    assets: (release.assets || []).map((asset: any) => ({ name: asset.name, downloads: asset.download_count || 0 })),
+                }));
+            if (items.length < 100 || items.some((release: any) => release.published_at && release.published_at < periodStart)) break;
+        }
+        return releases;
+    }));
+    return perRepo.flat();
+};
+
+// REST tags carry no dates, so every repo's recent tags come from one aliased GraphQL query
+export const fetchTags = async (fullNames: string[], headers: HeadersInit): Promise<{ repo: string; name: string; date: string }[]> => {
+    if (fullNames.length === 0) return [];
+    const repos = fullNames.map(fullName => fullName.split('/'));
+    const query = `
+        query(${repos.map((_, index) => `$owner${index}: String!, $name${index}: String!`).join(', ')}) {
+            ${repos.map((_, index) => `r${index}: repository(owner: $owner${index}, name: $name${index}) {
+                    refs(refPrefix: "refs/tags/", first: 50, orderBy: { field: TAG_COMMIT_DATE, direction: DESC }) {
+                        nodes {
+                            name
+                            target {
+                                ... on Commit { committedDate }
+                                ... on Tag { tagger { date } }
+                            }
+                        }
+                    }
+                }`).join('\n')}
+        }
+    `;
+    const variables = Object.fromEntries(repos.flatMap(([owner, name], index) => [[`owner${index}`, owner], [`name${index}`, name]]));
+
+    const response = await fetch('/api/github', {
+        method: 'POST',
+        headers: { ...headers, 'Content-Type': 'application/json' },
+        body: JSON.stringify({ query, variables })
+    });
+    if (!response.ok) return [];
+
+    // Repos that were renamed or deleted come back null with an error; the rest are still usable
+    const data = await response.json();
+    return fullNames.flatMap((fullName, index) =>
+        (data.data?.[`r${index}`]?.refs?.nodes || [])
+            .map((tag: any) => ({ repo: fullName, name: tag.name, date: tag.target?.tagger?.date || tag.target?.committedDate }))
+            .filter((tag: { date?: string }) => !!tag.date)
+    );
+};
+
+// CI runs the user triggered in the period; total_count covers runs past the pages read
+export const fetchWorkflowRuns = async (fullNames: string[], username: string, period: StoryPeriod, headers: HeadersInit): Promise<{ runs: WorkflowRunRecord[]; total: number }> => {
+    const perRepo = await Promise.all(fullNames.map(async fullName => {
+        const runs: WorkflowRunRecord[] = [];
+        let total = 0;
+        for (let page = 1; page <= MAX_WORKFLOW_RUN_PAGES; page++) {
+            const res = await fetch(makeGitHubUrl(`/repos/${fullName}/actions/runs?actor=${username}&created=${toSearchRange(period)}&per_page=100&page=${page}`), { headers }).catch(() => null);
+            if (!res?.ok) break;
+            const data = await res.json();
+            const items = Array.isArray(data.workflow_runs) ? data.workflow_runs : [];
+            total = data.total_count || 0;
+            items.forEach((run: any) => runs.push({
+                repo: fullName,
+                workflow: run.name || run.path || "Workflow",
+                conclusion: run.conclusion,
+                startedAt: run.run_started_at || run.created_at,
+                updatedAt: run.updated_at,
+            }));
+            if (items.length < 100) break;
+        }
+        return { runs, total: Math.max(total, runs.length) };
+    }));
+    return {
+        runs: perRepo.flatMap(repo => repo.runs),
+        total: perRepo.reduce((sum, repo) => sum + repo.total, 0),
+    };
+};
+
+// Each repo's languages endpoint is one request, so only the repos with the most commits are read
+const MAX_LANGUAGE_REPOS = 10;
+
+// Search only serves the first 1000 hits of a query, so busy ranges are split in half
+// and the whole period shares one page budget; search allows 30 requests a minute signed in
+// and 10 anonymous, shared with the count and guest PR searches and a comparison's second period
+const MAX_COMMIT_SEARCH_PAGES = 8;
+const MAX_ANONYMOUS_COMMIT_SEARCH_PAGES = 2;
+
+export interface SearchedCommit {
+    sha: string;
+    repo: string; // owner/name
+    message: string;
+    authoredAt: string; // ISO 8601 with the author's own UTC offset
+}
+
+// Sets budget.truncated when the budget or the rate limit stops it before the range is read
+const searchCommitRange = async (username: string, start: string, end: string, headers: HeadersInit, budget: { pages: number; truncated: boolean }): Promise<SearchedCommit[]> => {
+    const commits: SearchedCommit[] = [];
+
+    for (let page = 1; page <= 10; page++) {
+        if (budget.pages <= 0) {
+            budget.truncated = true;
+            break;
+        }
+        budget.pages--;
+        const res = await fetch(makeGitHubUrl(`/search/commits?q=author:${username}+author-date:${start}..${end}&sort=author-date&order=desc&per_page=100&page=${page}`), { headers });
+        if (!res.ok) {
+            budget.truncated = true;
+            break;
+        }
+        const data = await res.json();
+
+        if (page === 1 && data.total_count > 1000 && start < end) {
+            const middle = shiftISODate(start, Math.floor((new Date(end).getTime() - new Date(start).getTime()) / 86400000 / 2));
+            const newer = await searchCommitRange(username, shiftISODate(middle, 1), end, headers, budget);
+            const older = await searchCommitRange(username, start, middle, headers, budget);
+            return [...newer, ...older];
+        }
+
+        const items = Array.isArray(data.items) ? data.items : [];
+        items.forEach((item: any) => commits.push({
+            sha: item.sha,
+            repo: item.repository?.full_name || "",
+            message: item.commit?.message || "",
+            authoredAt: item.commit?.author?.date || "",
+        }));
+        if (items.length < 100) break;
+    }
+
+    return commits;
+};
+
+// The user's own commits in the period, newest first, with author timestamps intact;
+// isPartial means only the newest part of the period was read
+export const searchUserCommits = async (username: string, period: StoryPeriod, headers: HeadersInit, maxPages: number = MAX_COMMIT_SEARCH_PAGES): Promise<{ commits: SearchedCommit[]; isPartial: boolean }> => {
+    const budget = { pages: maxPages, truncated: false };
+    const commits = await searchCommitRange(username, period.start, period.end, headers, budget);
+    const seen = new Set<string>();
+    return {
+        commits: commits.filter(c => {
+            if (!c.authoredAt || seen.has(c.sha)) return false;
+            seen.add(c.sha);
+            return true;
+        }),
+        isPartial: budget.truncated,
+    };
+};
+
+// GitHub REST repository -> provider-neutral repository
+export const toActivityRepository = (repo: any): ActivityRepository => ({
+  name: repo.name,
+  description: repo.description,
+  url: repo.html_url,
+  language: repo.language,
+  stars: repo.stargazers_count || 0,
+  forks: repo.forks_count || 0,
+  watchers: repo.watchers_count || 0,
+  openIssues: repo.open_issues_count || 0,
+  size: repo.size || 0,
+  topics: repo.topics || [],
+  isFork: !!repo.fork,
+  isArchived: !!repo.archived,
+  createdAt: repo.created_at,
+  pushedAt: repo.pushed_at,
+});
+
+export const githubProvider: StoryProvider = {
+  id: 'github',
+  label: 'GitHub',
+  fetchActivity: async ({ username, token, timeZone }, period) => {
+    const headers: HeadersInit = {
+      'Accept': 'application/vnd.github.v3+json',
+    };
+    if (token) {
+      headers['Authorization'] = `Bearer ${token}`;
+    }
+
+    // The token owner, whose /user/repos listing only belongs in their own story
+    const [userRes, viewer] = await Promise.all([
+        fetch(makeGitHubUrl(`/users/${username}`), { headers }),
+        token
+            ? fetch(makeGitHubUrl('/user'), { headers }).then(res => res.ok ? res.json() : null).catch(() => null)
+            : Promise.resolve(null),
+    ]);
     
     if (userRes.status === 404) {
         throw new Error(`User "${username}" not found. Check the spelling and try again.`);
@@ -125,40 +728,56 @@ export const fetchUserStory = async (username: string, token?: string): Promise<
     
     const user = await userRes.json();
 
+    const contributionsPromise = fetchContributionData(username, period, token);
 
-    type ContribData = {
-        contributions: { date: string; count: number }[];
-        total: Record<string, number>;
-        prCount?: number;
-        issueCount?: number;
-        reviewCount?: number;
-    };
-    
-
-    const contributionsPromise: Promise<ContribData> = token 
-        ? fetchContributionsWithGraphQL(username, headers)
-        : fetch(`/api/github?url=${encodeURIComponent(`${CONTRIB_API}/${username}?y=2025`)}`).then(res => res.ok ? res.json() : { contributions: [], total: {} });
-
+    const searchRange = toSearchRange(period);
+    // Detailed PR, review and issue lists only exist in GraphQL
+    const canUseGraphQL = !!token;
 
-    const reposEndpoint = token
+    const isViewer = !!viewer?.login && viewer.login.toLowerCase() === user.login.toLowerCase();
+    const reposEndpoint = isViewer
         ? makeGitHubUrl(`/user/repos?per_page=100&sort=pushed&affiliation=owner,collaborator,organization_member&visibility=all`)
         : makeGitHubUrl(`/users/${username}/repos?per_page=100&sort=pushed&type=all`);
 
+    // Search requests run one after another so a story never bursts past the search rate limit
+    const runSearches = async () => {
+        const commitSearch = await searchUserCommits(username, period, headers, token ? MAX_COMMIT_SEARCH_PAGES : MAX_ANONYMOUS_COMMIT_SEARCH_PAGES)
+            .catch(() => ({ commits: [] as SearchedCommit[], isPartial: true }));
+        const prSearchRes = await fetch(makeGitHubUrl(`/search/issues?q=author:${username}+type:pr+created:${searchRange}&per_page=1`), { headers });
+        const issueSearchRes = await fetch(makeGitHubUrl(`/search/issues?q=author:${username}+type:issue+created:${searchRange}&per_page=1`), { headers });
+        const reviewSearchRes = await fetch(makeGitHubUrl(`/search/issues?q=reviewed-by:${username}+-author:${username}+type:pr+created:${searchRange}&per_page=1`), { headers });
+        const guestRepos = await fetchGuestRepos(username, period, headers).catch(() => [] as GuestRepo[]);
+        return { commitSearch, prSearchRes, issueSearchRes, reviewSearchRes, guestRepos };
+    };
+
     const [
         reposRes,
         contribData,
         eventsRes,
-        prSearchRes,
-        issueSearchRes,
-        reviewSearchRes
+        { commitSearch, prSearchRes, issueSearchRes, reviewSearchRes, guestRepos },
+        pullRequests,
+        reviews,
+        issues,
+        issuesClosedInOwnRepos
     ] = await Promise.all([
         fetch(reposEndpoint, { headers }),
         contributionsPromise,
         fetch(makeGitHubUrl(`/users/${username}/events?per_page=100`), { headers }),
-        fetch(makeGitHubUrl(`/search/issues?q=author:${username}+type:pr+created:2025-01-01..2025-12-31&per_page=1`), { headers }),
-        fetch(makeGitHubUrl(`/search/issues?q=author:${username}+type:issue+created:2025-01-01..2025-12-31&per_page=1`), { headers }),
-        fetch(makeGitHubUrl(`/search/issues?q=reviewed-by:${username}+-author:${username}+type:pr+created:2025-01-01..2025-12-31&per_page=1`), { headers })
+        runSearches(),
+        canUseGraphQL
+            ? fetchPullRequestContributions(username, period, headers).catch(() => [] as PullRequestRecord[])
+            : Promise.resolve([] as PullRequestRecord[]),
+        canUseGraphQL
+            ? fetchReviewContributions(username, period, headers).catch(() => [] as ReviewRecord[])
+            : Promise.resolve([] as ReviewRecord[]),
+        canUseGraphQL
+            ? fetchIssueContributions(username, period, headers).catch(() => [] as IssueRecord[])
+            : Promise.resolve([] as IssueRecord[]),
+        canUseGraphQL
+            ? fetchIssuesClosedInOwnRepos(username, period, headers).catch(() => undefined)
+            : Promise.resolve(undefined)
     ]);
+    const commits = commitSearch.commits;
 
     let repos: any[] = [];
     if (reposRes.ok) {
@@ -187,275 +806,150 @@ export const fetchUserStory = async (username: string, token?: string): Promise<
         reviewCount = reviewData.total_count || 0;
     }
 
-    const velocityData: { date: string; commits: number }[] = [];
-    let totalCommits = 0;
-    let currentStreak = 0;
-    let maxStreak = 0;
-    const weekdayStats = [0, 0, 0, 0, 0, 0, 0];
-    
-    const yearData = contribData.contributions || [];
-    yearData.sort((a: any, b: any) => new Date(a.date).getTime() - new Date(b.date).getTime());
+    // Commit timestamps carry the author's offset; the event feed is a small UTC-only fallback
+    const hourCounts: Record<number, number> = {};
+    let hourTimeZone = timeZone;
+    let hoursPartial = commitSearch.isPartial;
 
-    for (const day of yearData) {
-        const count = day.count || 0;
-        totalCommits += count;
-        
-        const dateObj = new Date(day.date);
-        velocityData.push({
-            date: dateObj.toLocaleDateString('en-US', { month: 'short', day: 'numeric' }),
-            commits: count
+    if (commits.length > 0) {
+        commits.forEach(c => {
+            const h = getHourOfDay(c.authoredAt, timeZone);
+            hourCounts[h] = (hourCounts[h] || 0) + 1;
         });
-
-        if (count > 0) weekdayStats[dateObj.getDay()] += count;
-
-        if (count > 0) {
-            currentStreak++;
-            if (currentStreak > maxStreak) maxStreak = currentStreak;
-        } else {
-            currentStreak = 0;
+    } else if (Array.isArray(events)) {
+        // The feed only reaches back about 90 days, so older periods usually get nothing from it
+        const periodEvents = events.filter((e: any) => e.created_at && isWithinPeriod(e.created_at, period));
+        if (periodEvents.length > 0) {
+            hourTimeZone = timeZone || getLocalTimeZone();
+            hoursPartial = true;
         }
-    }
-
-    const days = ["Sundays", "Mondays", "Tuesdays", "Wednesdays", "Thursdays", "Fridays", "Saturdays"];
-    const maxDayIndex = weekdayStats.indexOf(Math.max(...weekdayStats));
-    const busiestDay = days[maxDayIndex];
-
-
-    const hourCounts: Record<number, number> = {};
-
-    if (Array.isArray(events)) {
-        events.forEach((e: any) => {
-            const date = new Date(e.created_at);
-            const h = date.getHours();
+        periodEvents.forEach((e: any) => {
+            const h = getHourOfDay(e.created_at, hourTimeZone);
             hourCounts[h] = (hourCounts[h] || 0) + 1;
         });
     }
 
+    const ownedRepos: ActivityRepository[] = (Array.isArray(repos) ? repos : [])
+      .filter((r: any) => r.owner?.login?.toLowerCase() === user.login.toLowerCase())
+      .map(toActivityRepository);
 
-    const contributionBreakdown: ContributionBreakdown = {
-        commits: totalCommits,
-        prs: prCount,
-        issues: issueCount,
-        reviews: reviewCount,
-    };
-
-    const langColors: Record<string, string> = {
-      "TypeScript": "#3178C6", "JavaScript": "#F7DF1E", "HTML": "#e34c26", 
-      "CSS": "#563d7c", "Vue": "#41b883", "Svelte": "#ff3e00", "SCSS": "#c6538c",
-      "Less": "#1d365d", "Astro": "#ff5a03", "MDX": "#1b1f24",
-      "Rust": "#dea584", "C": "#555555", "C++": "#f34b7d", "C#": "#178600",
-      "Go": "#00ADD8", "Zig": "#f7a41d", "Assembly": "#6E4C13", "Objective-C": "#438eff",
-      "Java": "#b07219", "Kotlin": "#A97BFF", "Scala": "#c22d40", "Groovy": "#4298b8",
-      "Clojure": "#db5855",
-      "Python": "#3572A5", "Ruby": "#701516", "PHP": "#4F5D95", "Perl": "#0298c3",
-      "Lua": "#000080", "R": "#198CE7", "Julia": "#a270ba", "Elixir": "#6e4a7e",
-      "Erlang": "#B83998", "Haskell": "#5e5086", "OCaml": "#3be133",
-      "Swift": "#F05138", "Dart": "#00B4AB", "Objective-C++": "#6866fb",
-      "Jupyter Notebook": "#DA5B0B", "MATLAB": "#e16737", "SAS": "#B34936",
-      "Shell": "#89e051", "PowerShell": "#012456", "Dockerfile": "#384d54",
-      "Makefile": "#427819", "Nix": "#7e7eff", "HCL": "#844fba",
-      "SQL": "#e38c00", "PLpgSQL": "#336790", "TSQL": "#e38c00", "GraphQL": "#e10098",
-      "Markdown": "#083fa1", "TeX": "#3D6117", "Org": "#77aa99",
-      "F#": "#b845fc", "Crystal": "#000100", "Nim": "#ffc200", "V": "#4f87c4",
-      "Solidity": "#AA6746", "Move": "#4a137a", "Cairo": "#ff4c00",
-      "WASM": "#654ff0", "WebAssembly": "#654ff0", "CoffeeScript": "#244776",
-      "Elm": "#60B5CC", "PureScript": "#1D222D", "ReasonML": "#ff5847",
-      "Raku": "#0000fb", "Fortran": "#4d41b1", "COBOL": "#005ca5", "Ada": "#02f88c",
-      "D": "#ba595e", "Vala": "#a56de2", "Hack": "#878787", "ActionScript": "#882B0F"
-    };
+    // Exact per-repo counts from GraphQL when signed in, otherwise tallied from commit search
+    const repoContributions = contribData.repoContributions || [];
+    const commitsByRepo = new Map<string, number>();
+    if (repoContributions.length > 0) {
+      repoContributions.forEach(rc => { if (rc.commits > 0) commitsByRepo.set(rc.fullName, rc.commits); });
+    } else {
+      commits.forEach(c => commitsByRepo.set(c.repo, (commitsByRepo.get(c.repo) || 0) + 1));
+    }
 
-    let totalStars = 0;
+    const ownedKey = (name: string) => `${user.login}/${name}`.toLowerCase();
+    ownedRepos.forEach(repo => {
+      const count = commitsByRepo.get(`${user.login}/${repo.name}`);
+      if (count) repo.commits = count;
+      const contribution = repoContributions.find(rc => rc.fullName.toLowerCase() === ownedKey(repo.name));
+      if (contribution?.pullRequests) repo.pullRequests = contribution.pullRequests;
+    });
 
-    const repoScores: { repo: any; score: number }[] = [];
-    
-    if (Array.isArray(repos)) {
-        repos.forEach((repo: any) => {
-          totalStars += repo.stargazers_count;
-          const repoScore = calculateRepoScore(repo);
-          repoScores.push({ repo, score: repoScore });
-        });
-    }
+    // Repos outside the user's own list (orgs, other people's projects, or past the first 100) still rank
+    const ownedKeys = new Set(ownedRepos.map(r => ownedKey(r.name)));
+    const contributedRepos: ActivityRepository[] = repoContributions
+      .filter(rc => !ownedKeys.has(rc.fullName.toLowerCase()))
+      .map(rc => ({ ...rc.repository, commits: rc.commits, pullRequests: rc.pullRequests }));
 
-    repoScores.sort((a, b) => b.score - a.score);
-    
-    const ownedRepoScores = repoScores.filter(r => 
-      r.repo.owner?.login?.toLowerCase() === username.toLowerCase()
-    );
-    
-    const year2025 = new Date('2025-01-01');
-    const repos2025 = ownedRepoScores.filter(r => 
-      new Date(r.repo.pushed_at) >= year2025 && !r.repo.archived && !r.repo.fork
-    );
-    
-    repos2025.sort((a, b) => 
-      (b.repo.stargazers_count || 0) - (a.repo.stargazers_count || 0)
-    );
-    
-    const candidateSource = repos2025.length > 0 ? repos2025 : ownedRepoScores.filter(r => !r.repo.archived);
-    const topCandidates = candidateSource.slice(0, 5);
-    
-    const candidatesWithCommits: { repo: any; score: number; commitCount: number }[] = [];
-    
-    for (const candidate of topCandidates) {
+    // Without either, probe the user's own commits in the strongest candidates so real work outranks old stars
+    const probed = commitsByRepo.size > 0 ? [] : rankRepositories(ownedRepos, period).slice(0, 5);
+    for (const candidate of probed) {
       try {
-        const repoOwner = candidate.repo.owner?.login || username;
         const commitsRes = await fetch(
-          makeGitHubUrl(`/repos/${repoOwner}/${candidate.repo.name}/commits?author=${username}&since=2025-01-01T00:00:00Z&per_page=100`),
+          makeGitHubUrl(`/repos/${user.login}/${candidate.name}/commits?author=${username}&since=${period.start}T00:00:00Z&until=${period.end}T23:59:59Z&per_page=100`),
           { headers }
         );
         
         if (commitsRes.ok) {
-          const commits = await commitsRes.json();
-          if (Array.isArray(commits) && commits.length > 0) {
-            candidatesWithCommits.push({ ...candidate, commitCount: commits.length });
-          }
+          const repoCommits = await commitsRes.json();
+          candidate.commits = Array.isArray(repoCommits) ? repoCommits.length : 0;
         }
       } catch (e) {
-        console.warn(`Failed to check commits for ${candidate.repo.name}:`, e);
-      }
-    }
-    
-    let bestRepo: any = null;
-    if (candidatesWithCommits.length > 0) {
-      candidatesWithCommits.sort((a, b) => {
-        const scoreA = (a.commitCount * 3) + ((a.repo.stargazers_count || 0) * 2) + ((a.repo.forks_count || 0) * 2);
-        const scoreB = (b.commitCount * 3) + ((b.repo.stargazers_count || 0) * 2) + ((b.repo.forks_count || 0) * 2);
-        return scoreB - scoreA;
-      });
-      bestRepo = candidatesWithCommits[0].repo;
-    }
-    
-    if (!bestRepo && topCandidates.length > 0) {
-      
-      const ownedRepo = topCandidates.find(c => 
-        c.repo.owner?.login?.toLowerCase() === username.toLowerCase()
-      );
-      
-      if (ownedRepo) {
-        bestRepo = ownedRepo.repo;
-      } else {
-        bestRepo = topCandidates[0].repo;
+        console.warn(`Failed to check commits for ${candidate.name}:`, e);
       }
     }
 
-    const ownedRepos = repos.filter((r: any) => 
-      r.owner?.login?.toLowerCase() === username.toLowerCase()
-    );
-    const langScoreMap = calculateLanguageScores(ownedRepos);
-    const topLangScores = getTopLanguages(langScoreMap, 3);
-    
-    const topLangWeight = topLangScores.reduce((sum, l) => sum + l.weight, 0);
-
-    const topLanguages: Language[] = topLangScores.map(lang => {
-        const normalizedPercentage = topLangWeight > 0 ? (lang.weight / topLangWeight) * 100 : 0;
-        
-        return {
-            name: lang.name,
-            count: lang.repoCount,
-            percentage: Math.round(normalizedPercentage),
-            color: langColors[lang.name] || "#A3A3A3"
-        };
-    });
-    
-    if (topLanguages.length > 0) {
-        const sum = topLanguages.reduce((s, l) => s + l.percentage, 0);
-        if (sum !== 100 && sum > 0) {
-            topLanguages[0].percentage += (100 - sum);
-        }
-    }
-
-    if (topLanguages.length === 0) {
-        topLanguages.push({ name: "Polyglot", count: 1, percentage: 100, color: "#FFFFFF" });
-    }
-
-    const topRepo: Repository = bestRepo ? {
-      name: bestRepo.name,
-      description: bestRepo.description || "No description provided.",
-      stars: bestRepo.stargazers_count,
-      language: bestRepo.language || "Unknown",
-      topics: bestRepo.topics || [],
-      url: bestRepo.html_url
-    } : {
-      name: "No Public Repos",
-      description: "Start coding to write history.",
-      stars: 0,
-      language: "N/A",
-      topics: [],
-      url: ""
-    };
-
-    const topRepos: Repository[] = [];
-    
-    if (bestRepo) {
-      topRepos.push({
-        name: bestRepo.name,
-        description: bestRepo.description || "No description provided.",
-        stars: bestRepo.stargazers_count,
-        language: bestRepo.language || "Unknown",
-        topics: bestRepo.topics || [],
-        url: bestRepo.html_url
-      });
-    }
-    
-    for (const c of candidatesWithCommits) {
-      if (topRepos.length >= 5) break;
-      if (bestRepo && c.repo.name === bestRepo.name && c.repo.owner?.login === bestRepo.owner?.login) {
-        continue; 
-      }
-      topRepos.push({
-        name: c.repo.name,
-        description: c.repo.description || "No description provided.",
-        stars: c.repo.stargazers_count,
-        language: c.repo.language || "Unknown",
-        topics: c.repo.topics || [],
-        url: c.repo.html_url
-      });
-    }
-    
-    for (const c of topCandidates) {
-      if (topRepos.length >= 5) break;
-      if (topRepos.some(r => r.name === c.repo.name)) continue;
-      topRepos.push({
-        name: c.repo.name,
-        description: c.repo.description || "No description provided.",
-        stars: c.repo.stargazers_count,
-        language: c.repo.language || "Unknown",
-        topics: c.repo.topics || [],
-        url: c.repo.html_url
-      });
-    }
-
-    const productivity = calculateProductivity(hourCounts);
-
-    const communityStats: CommunityStats = {
-        followers: user.followers,
-        following: user.following,
-        publicRepos: user.public_repos,
-        totalStars: totalStars
-    };
+    // Languages by bytes from the repos the user committed to most, including ones they don't own
+    const languageRepos = commitsByRepo.size > 0
+      ? Array.from(commitsByRepo.entries())
+      : probed.filter(r => r.commits).map(r => [`${user.login}/${r.name}`, r.commits || 0] as [string, number]);
+
+    const repoLanguages = await Promise.all(languageRepos
+      .sort((a, b) => b[1] - a[1])
+      .slice(0, MAX_LANGUAGE_REPOS)
+      .map(async ([fullName, repoCommits]) => {
+        const res = await fetch(makeGitHubUrl(`/repos/${fullName}/languages`), { headers }).catch(() => null);
+        const languages: Record<string, number> = res?.ok ? await res.json() : {};
+        const owned = ownedRepos.find(r => ownedKey(r.name) === fullName.toLowerCase());
+        if (owned) owned.languages = languages;
+        return { languages, commits: repoCommits };
+      }));
+    const languageWeights = calculateLanguageWeights(repoLanguages);
+
+    // Shipping and CI are counted in the repos the user was busiest in, owned or not;
+    // tags name no author, so only the user's own repos contribute them
+    const busiestRepos = rankRepositories([...ownedRepos, ...contributedRepos], period)
+      .slice(0, MAX_BUSIEST_REPOS)
+      .map(r => r.url.split('/').slice(-2).join('/'))
+      .filter(fullName => /^[^/]+\/[^/]+$/.test(fullName));
+    const busiestOwnedRepos = busiestRepos.filter(fullName => ownedKeys.has(fullName.toLowerCase()));
+    const [releases, tags, workflowRuns] = await Promise.all([
+      fetchReleases(busiestRepos, user.login, period, headers).catch(() => [] as ReleaseRecord[]),
+      canUseGraphQL ? fetchTags(busiestOwnedRepos, headers).catch(() => []) : Promise.resolve([]),
+      fetchWorkflowRuns(busiestRepos, user.login, period, headers).catch(() => ({ runs: [] as WorkflowRunRecord[], total: 0 })),
+    ]);
 
-    const archetype = calculateArchetype(contributionBreakdown, communityStats, totalCommits, productivity, weekdayStats);
+    const starEvents = await fetchStarEvents(
+      ownedRepos.filter(r => !r.isFork).map(r => ({ fullName: `${user.login}/${r.name}`, stars: r.stars })),
+      period,
+      headers
+    ).catch(() => null);
 
     return {
       username: user.login,
       avatarUrl: user.avatar_url,
-      year: 2025,
-      totalCommits,
-      longestStreak: maxStreak,
-      busiestDay,
-      topLanguages,
-      topRepo,
-      topRepos,
-      velocityData,
-      weekdayStats,
-      productivity,
-      archetype,
-      contributionBreakdown,
-      community: communityStats
+      calendar: contribData.contributions || [],
+      hourCounts,
+      hourTimeZone,
+      hoursPartial,
+      prs: prCount,
+      issues: issueCount,
+      reviews: reviewCount,
+      repos: ownedRepos,
+      contributedRepos,
+      commitCount: contribData.commitCount,
+      restrictedContributions: contribData.restrictedCount,
+      ...(pullRequests.length > 0 && { pullRequests }),
+      ...(reviews.length > 0 && { reviewRecords: reviews }),
+      ...((issues.length > 0 || !!issuesClosedInOwnRepos) && { issueRecords: issues, issuesClosedInOwnRepos }),
+      coAuthors: commits.flatMap(c => parseCoAuthors(c.message)),
+      commitMessages: commits.map(c => c.message),
+      ...(guestRepos.length > 0 && { guestRepos }),
+      ...(starEvents && { stars: starEvents.stars, starsPartial: starEvents.isPartial }),
+      ...((releases.length > 0 || tags.length > 0) && { releases, tags }),
+      ...(workflowRuns.runs.length > 0 && { workflowRuns: workflowRuns.runs, workflowRunCount: workflowRuns.total }),
+      followers: user.followers,
+      following: user.following,
+      publicRepos: user.public_repos,
+      ...(Object.keys(languageWeights).length > 0 && { languageWeights }),
     };
+  },
+};
+
+export const fetchUserStory = async (username: string, token?: string, period: StoryPeriod = getDefaultPeriod(), timeZone?: string): Promise<GitStoryData> => {
+  if (username.toLowerCase() === 'demo') {
+      return new Promise((resolve) => setTimeout(() => resolve({ ...MOCK_DATA, year: getPeriodYear(period), period }), 1500));
+  }
 
+  try {
+    return await fetchStory(githubProvider, { username, token, timeZone }, period);
   } catch (error) {
     console.error("Error generating story:", error);
     throw error;
   }
-};
\ No newline at end of file
+};
@@ -0,0 +1,147 @@
+import { StoryPeriod } from "../types";
+
+// GitHub's contributionsCollection refuses ranges longer than one year
+const MAX_PERIOD_DAYS = 366;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const ISO_DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+export const toISODate = (date: Date): string => date.toISOString().split('T')[0];
+
+export const shiftISODate = (date: string, days: number): string => {
+  const d = new Date(`${date}T00:00:00Z`);
+  d.setUTCDate(d.getUTCDate() + days);
+  return toISODate(d);
+};
+
+// IANA zone of the viewer's browser, for forges that only report UTC times
+export const getLocalTimeZone = (): string => Intl.DateTimeFormat().resolvedOptions().timeZone;
+
+// Hour of day (0-23) of an ISO timestamp, in timeZone when given, otherwise in the timestamp's own offset
+export const getHourOfDay = (timestamp: string, timeZone?: string): number => {
+  if (!timeZone) {
+    const match = timestamp.match(/T(\d{2}):/);
+    if (match) return parseInt(match[1], 10);
+  }
+  const hour = new Intl.DateTimeFormat('en-US', { hour: 'numeric', hourCycle: 'h23', timeZone: timeZone || 'UTC' }).format(new Date(timestamp));
+  return parseInt(hour, 10) % 24;
+};
+
+// Every day of the period that has already happened, oldest first
+export const getElapsedPeriodDays = (period: StoryPeriod, now: Date = new Date()): string[] => {
+  const today = toISODate(now);
+  const lastDay = period.end < today ? period.end : today;
+  const days: string[] = [];
+  for (let date = period.start; date <= lastDay; date = shiftISODate(date, 1)) {
+    days.push(date);
+  }
+  return days;
+};
+
+export const getPeriodStart = (period: StoryPeriod): Date => new Date(`${period.start}T00:00:00Z`);
+
+export const getPeriodEnd = (period: StoryPeriod): Date => new Date(`${period.end}T23:59:59Z`);
+
+export const getPeriodLength = (period: StoryPeriod): number =>
+  Math.round((new Date(`${period.end}T00:00:00Z`).getTime() - getPeriodStart(period).getTime()) / DAY_MS) + 1;
+
+export const getPeriodYear = (period: StoryPeriod): number => parseInt(period.end.slice(0, 4), 10);
+
+export const getPeriodYears = (period: StoryPeriod): number[] => {
+  const years: number[] = [];
+  for (let y = parseInt(period.start.slice(0, 4), 10); y <= getPeriodYear(period); y++) {
+    years.push(y);
+  }
+  return years;
+};
+
+export const isFullYear = (period: StoryPeriod): boolean =>
+  period.start.endsWith('-01-01') && period.end.endsWith('-12-31') && period.start.slice(0, 4) === period.end.slice(0, 4);
+
+export const isWithinPeriod = (date: string | Date, period: StoryPeriod): boolean => {
+  const time = new Date(date).getTime();
+  return time >= getPeriodStart(period).getTime() && time <= getPeriodEnd(period).getTime();
+};
+
+// "2025-01-01..2025-12-31", the range syntax GitHub search qualifiers expect
+export const toSearchRange = (period: StoryPeriod): string => `${period.start}..${period.end}`;
+
+export const getPeriodSlug = (period: StoryPeriod): string =>
+  period.label.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || period.start;
+
+export const getYearPeriod = (year: number): StoryPeriod => ({
+  start: `${year}-01-01`,
+  end: `${year}-12-31`,
+  label: `${year}`,
+});
+
+export const getQuarterPeriod = (year: number, quarter: 1 | 2 | 3 | 4): StoryPeriod => {
+  const startMonth = (quarter - 1) * 3;
+  const lastDay = new Date(Date.UTC(year, startMonth + 3, 0));
+  return {
+    start: toISODate(new Date(Date.UTC(year, startMonth, 1))),
+    end: toISODate(lastDay),
+    label: `Q${quarter} ${year}`,
+  };
+};
+
+export const createCustomPeriod = (start: string, end: string, label?: string): StoryPeriod => {
+  if (!ISO_DATE_PATTERN.test(start) || !ISO_DATE_PATTERN.test(end)) {
+    throw new Error("Dates must use the YYYY-MM-DD format.");
+  }
+  if (start > end) {
+    throw new Error("The start date must be before the end date.");
+  }
+
+  const period: StoryPeriod = { start, end, label: '' };
+  if (getPeriodLength(period) > MAX_PERIOD_DAYS) {
+    throw new Error("Custom ranges can cover at most one year.");
+  }
+
+  const format = (date: string) => new Date(`${date}T00:00:00Z`).toLocaleDateString('en-US', {
+    month: 'short', day: 'numeric', year: 'numeric', timeZone: 'UTC'
+  });
+
+  return { ...period, label: label?.trim() || `${format(start)} – ${format(end)}` };
+};
+
+// During January the new year is still empty, so default to the one that just ended
+export const getDefaultPeriod = (now: Date = new Date()): StoryPeriod =>
+  getYearPeriod(now.getMonth() === 0 ? now.getFullYear() - 1 : now.getFullYear());
+
+const toMonthIndex = (date: string): number => parseInt(date.slice(0, 4), 10) * 12 + parseInt(date.slice(5, 7), 10) - 1;
+
+// Named ranges keep their name: "FY2025" becomes "FY2024" a year back, anything else says what it precedes
+const getPreviousLabel = (period: StoryPeriod, years: number): string | undefined => {
+  if (period.label === createCustomPeriod(period.start, period.end).label) return undefined;
+  const year = /(?<!\d)\d{4}(?!\d)/g;
+  return years > 0 && year.test(period.label)
+    ? period.label.replace(year, y => `${parseInt(y, 10) - years}`)
+    : `Before ${period.label}`;
+};
+
+// The period immediately before this one, with the same length
+export const getPreviousPeriod = (period: StoryPeriod): StoryPeriod => {
+  if (isFullYear(period)) {
+    return getYearPeriod(getPeriodYear(period) - 1);
+  }
+
+  const quarter = period.label.match(/^Q([1-4]) (\d{4})$/);
+  if (quarter) {
+    const q = parseInt(quarter[1], 10);
+    const y = parseInt(quarter[2], 10);
+    return q === 1 ? getQuarterPeriod(y - 1, 4) : getQuarterPeriod(y, (q - 1) as 1 | 2 | 3 | 4);
+  }
+
+  // Whole months, e.g. a fiscal year, move by calendar months so leap days can't shift the window
+  const isMonthAligned = period.start.endsWith('-01') && shiftISODate(period.end, 1).endsWith('-01');
+  if (isMonthAligned) {
+    const months = toMonthIndex(period.end) - toMonthIndex(period.start) + 1;
+    const startMonth = toMonthIndex(period.start) - months;
+    const start = toISODate(new Date(Date.UTC(Math.floor(startMonth / 12), startMonth % 12, 1)));
+    return createCustomPeriod(start, shiftISODate(period.start, -1), getPreviousLabel(period, months % 12 === 0 ? months / 12 : 0));
+  }
+
+  const end = shiftISODate(period.start, -1);
+  return createCustomPeriod(shiftISODate(end, 1 - getPeriodLength(period)), end, getPreviousLabel(period, 0));
+};
@@ -1,3 +1,6 @@
+import { CalendarStats, DaySpan, ProductivityData, StoryPeriod } from '../types';
+import { getPeriodStart, isWithinPeriod, shiftISODate, toISODate } from './period';
+
 export const SCORING_CONFIG = {
   language: {
     baseWeight: 1,           
@@ -29,7 +32,7 @@ export const SCORING_CONFIG = {
     sizeMaxPoints: 15,
     openIssuesLogMultiplier: 4,
     openIssuesMaxPoints: 8,
-    createdIn2025Bonus: 10,
+    createdInPeriodBonus: 10,
   }
 };
 
@@ -40,9 +43,9 @@ interface LanguageScore {
   recentCount: number;
 }
 
-export function calculateLanguageScores(repos: any[]): Map<string, LanguageScore> {
+export function calculateLanguageScores(repos: any[], period: StoryPeriod): Map<string, LanguageScore> {
   const langMap = new Map<string, LanguageScore>();
-  const year2025 = new Date('2025-01-01');
+  const periodStart = getPeriodStart(period);
   const { baseWeight, recentActivityBonus, diversityThreshold, diversityBonus } = SCORING_CONFIG.language;
   
   repos.forEach((repo) => {
@@ -52,7 +55,7 @@ export function calculateLanguageScores(repos: any[]): Map<string, LanguageScore
     
     const lang = repo.language;
     const pushedAt = new Date(repo.pushed_at);
-    const isActiveIn2025 = pushedAt >= year2025;
+    const isActiveInPeriod = pushedAt >= periodStart;
     
     if (!langMap.has(lang)) {
       langMap.set(lang, {
@@ -66,11 +69,11 @@ export function calculateLanguageScores(repos: any[]): Map<string, LanguageScore
     const score = langMap.get(lang)!;
     score.repoCount++;
     
-    if (isActiveIn2025) {
+    if (isActiveInPeriod) {
       score.recentCount++;
     }
     
-    score.weight += baseWeight + (isActiveIn2025 ? recentActivityBonus : 0);
+    score.weight += baseWeight + (isActiveInPeriod ? recentActivityBonus : 0);
   });
   
   langMap.forEach((score) => {
@@ -89,11 +92,27 @@ export function getTopLanguages(langMap: Map<string, LanguageScore>, topN: numbe
     .slice(0, topN);
 }
 
-export function calculateRepoScore(repo: any): number {
+// A repo's bytes are split across its languages and scaled by the user's commits there,
+// so a repo that is 40% Rust counts 40% towards Rust instead of all towards its primary language
+export function calculateLanguageWeights(repos: { languages: Record<string, number>; commits: number }[]): Record<string, number> {
+  const weights: Record<string, number> = {};
+  
+  repos.forEach(({ languages, commits }) => {
+    const totalBytes = Object.values(languages).reduce((sum, bytes) => sum + bytes, 0);
+    if (totalBytes <= 0 || commits <= 0) return;
+    
+    for (const [lang, bytes] of Object.entries(languages)) {
+      weights[lang] = (weights[lang] || 0) + (bytes / totalBytes) * commits;
+    }
+  });
+  
+  return weights;
+}
+
+export function calculateRepoScore(repo: any, period: StoryPeriod): number {
   let score = 0;
   const config = SCORING_CONFIG.repo;
-  const now = new Date();
-  const year2025Start = new Date('2025-01-01');
+  const periodStart = getPeriodStart(period);
 
   score += Math.min(
     Math.log10(repo.stargazers_count + 1) * config.stars.logMultiplier,
@@ -106,7 +125,7 @@ export function calculateRepoScore(repo: any): number {
   );
   
   const pushedAt = new Date(repo.pushed_at);
-  if (pushedAt >= year2025Start && config.recency.maxPoints > 0) {
+  if (pushedAt >= periodStart && config.recency.maxPoints > 0) {
     score += config.recency.maxPoints;
   }
   
@@ -146,9 +165,8 @@ export function calculateRepoScore(repo: any): number {
     );
   }
   
-  const createdAt = new Date(repo.created_at);
-  if (createdAt >= year2025Start) {
-    score += config.createdIn2025Bonus;
+  if (repo.created_at && isWithinPeriod(repo.created_at, period)) {
+    score += config.createdInPeriodBonus;
   }
   
   return score;
@@ -186,10 +204,7 @@ export function calculateArchetype(
   return "The Tinkerer";
 }
 
-export function calculateProductivity(hourCounts: Record<number, number>): {
-  timeOfDay: string;
-  peakHour: number;
-} {
+export function calculateProductivity(hourCounts: Record<number, number>, timeZone?: string, isPartial: boolean = false): ProductivityData {
   let peakHour = 14; 
   let maxCount = 0;
   
@@ -211,5 +226,74 @@ export function calculateProductivity(hourCounts: Record<number, number>): {
     timeOfDay = "Late Night";
   }
   
-  return { timeOfDay, peakHour };
+  const hourlyCounts = Array.from({ length: 24 }, (_, hour) => hourCounts[hour] || 0);
+  
+  return { timeOfDay, peakHour, hourlyCounts, ...(timeZone && { timeZone }), ...(isPartial && { isPartial }) };
+}
+
+// Expects one entry per day, oldest first, quiet days included
+export function calculateCalendarStats(calendar: { date: string; count: number }[]): CalendarStats {
+  let longestStreak: DaySpan | null = null;
+  let longestBreak: DaySpan | null = null;
+  let bestDay: { date: string; count: number } | null = null;
+  let streakStart = -1;
+  let lastActive = -1;
+  let activeDays = 0;
+  let total = 0;
+  const weekTotals: Record<string, number> = {};
+  const monthTotals: Record<string, number> = {};
+  
+  calendar.forEach((day, index) => {
+    const weekStart = shiftISODate(day.date, -new Date(`${day.date}T00:00:00Z`).getUTCDay());
+    const month = day.date.slice(0, 7);
+    weekTotals[weekStart] = (weekTotals[weekStart] || 0) + day.count;
+    monthTotals[month] = (monthTotals[month] || 0) + day.count;
+    
+    if (day.count <= 0) {
+      streakStart = -1;
+      return;
+    }
+    
+    activeDays++;
+    total += day.count;
+    if (!bestDay || day.count > bestDay.count) bestDay = { date: day.date, count: day.count };
+    
+    const gapDays = lastActive >= 0 ? index - lastActive - 1 : 0;
+    if (gapDays > 0 && (!longestBreak || gapDays > longestBreak.days)) {
+      longestBreak = { start: calendar[lastActive + 1].date, end: calendar[index - 1].date, days: gapDays };
+    }
+    
+    if (streakStart < 0) streakStart = index;
+    const streakDays = index - streakStart + 1;
+    if (!longestStreak || streakDays > longestStreak.days) {
+      longestStreak = { start: calendar[streakStart].date, end: day.date, days: streakDays };
+    }
+    lastActive = index;
+  });
+  
+  // Today may simply not have its commits yet, so a quiet last day doesn't end the streak,
+  // unless the period is already over
+  let currentStreak = 0;
+  let i = calendar.length - 1;
+  if (i >= 0 && calendar[i].count <= 0 && calendar[i].date >= toISODate(new Date())) i--;
+  for (; i >= 0 && calendar[i].count > 0; i--) currentStreak++;
+  
+  const monthlyTotals = Object.keys(monthTotals).sort().map(month => ({ month, count: monthTotals[month] }));
+  
+  const best = (totals: Record<string, number>) =>
+    Object.entries(totals).filter(([, count]) => count > 0).sort((a, b) => b[1] - a[1])[0];
+  const week = best(weekTotals);
+  const month = best(monthTotals);
+  
+  return {
+    longestStreak,
+    currentStreak,
+    longestBreak,
+    bestDay,
+    bestWeek: week ? { start: week[0], count: week[1] } : null,
+    bestMonth: month ? { month: month[0], count: month[1] } : null,
+    monthlyTotals,
+    activeDays,
+    averagePerActiveDay: activeDays > 0 ? Math.round((total / activeDays) * 10) / 10 : 0,
+  };
 }
@@ -0,0 +1,261 @@
+import { ActivityRepository, CommunityStats, ContributionBreakdown, GitStoryData, Language, ProviderActivity, Repository, StoryPeriod, StoryRequest } from "../types";
+import { LANGUAGE_COLORS } from "../constants";
+import { getElapsedPeriodDays, getPeriodStart, getPeriodYear, toISODate } from "./period";
+import {
+  calculateLanguageScores,
+  getTopLanguages,
+  calculateRepoScore,
+  calculateArchetype,
+  calculateProductivity,
+  calculateCalendarStats
+} from "./scoringAlgorithms";
+import { analyzeCommitMessages } from "./commitMessageAnalysis";
+import { calculateCollaborators, calculateIssueStats, calculatePullRequestStats, calculatePipelineStats, calculateReviewStats, calculateShippingStats, calculateStarGrowth, rankGuestRepos } from "./activityAnalytics";
+
+// A forge (or local source) that can collect raw activity; buildStory does the rest
+export interface StoryProvider {
+  id: string;
+  label: string;
+  fetchActivity: (request: StoryRequest, period: StoryPeriod) => Promise<ProviderActivity>;
+}
+
+const DAYS = ["Sundays", "Mondays", "Tuesdays", "Wednesdays", "Thursdays", "Fridays", "Saturdays"];
+
+const EMPTY_REPO: Repository = {
+  name: "No Public Repos",
+  description: "Start coding to write history.",
+  stars: 0,
+  language: "N/A",
+  topics: [],
+  url: ""
+};
+
+// Some forges report "typescript" or "TYPESCRIPT"; match GitHub's spelling so colors line up
+export const normalizeLanguageName = (language?: string | null): string | null => {
+  if (!language) return null;
+  const known = Object.keys(LANGUAGE_COLORS).find(name => name.toLowerCase() === language.toLowerCase());
+  return known || language.charAt(0).toUpperCase() + language.slice(1);
+};
+
+// scoringAlgorithms works on GitHub's REST field names
+const toScoringRepo = (repo: ActivityRepository) => ({
+  name: repo.name,
+  description: repo.description,
+  language: repo.language,
+  stargazers_count: repo.stars,
+  forks_count: repo.forks,
+  watchers_count: repo.watchers,
+  open_issues_count: repo.openIssues,
+  size: repo.size,
+  topics: repo.topics,
+  fork: repo.isFork,
+  archived: repo.isArchived,
+  created_at: repo.createdAt,
+  pushed_at: repo.pushedAt,
+});
+
+const toRepository = (repo: ActivityRepository, showCommits: boolean): Repository => ({
+  name: repo.name,
+  description: repo.description || "No description provided.",
+  stars: repo.stars,
+  language: repo.language || "Unknown",
+  topics: repo.topics,
+  url: repo.url,
+  ...(showCommits && { commits: repo.commits || 0 })
+});
+
+const activityCount = (repo: ActivityRepository) => (repo.commits || 0) + (repo.pullRequests || 0);
+
+// Repos the user actually worked on this period come first, ordered by their own commits and PRs when known;
+// stars only break ties, since a contributed repo's stars aren't the user's
+export const rankRepositories = (repos: ActivityRepository[], period: StoryPeriod): ActivityRepository[] => {
+  const periodStart = getPeriodStart(period);
+  const active = repos.filter(r =>
+    !r.isArchived && !r.isFork && (activityCount(r) > 0 || (!!r.pushedAt && new Date(r.pushedAt) >= periodStart))
+  );
+  const pool = active.length > 0 ? active : repos.filter(r => !r.isArchived);
+
+  const activityScore = (r: ActivityRepository) => (r.commits || 0) * 3 + (r.pullRequests || 0) * 6;
+
+  return pool
+    .map(repo => ({ repo, score: calculateRepoScore(toScoringRepo(repo), period) }))
+    .sort((a, b) => {
+      const aCommitted = activityCount(a.repo) > 0;
+      const bCommitted = activityCount(b.repo) > 0;
+      if (aCommitted !== bCommitted) return aCommitted ? -1 : 1;
+      if (aCommitted) return activityScore(b.repo) - activityScore(a.repo) || b.repo.stars - a.repo.stars;
+      return b.score - a.score;
+    })
+    .map(({ repo }) => repo);
+};
+
+const TOP_LANGUAGES = 5;
+
+// Real weights give true shares of the whole, with the long tail grouped as "Other"
+const buildWeightedLanguages = (activity: ProviderActivity, weights: Record<string, number>): Language[] => {
+  const normalized: Record<string, number> = {};
+  Object.entries(weights).forEach(([name, weight]) => {
+    const lang = normalizeLanguageName(name) || name;
+    if (weight > 0) normalized[lang] = (normalized[lang] || 0) + weight;
+  });
+
+  const entries = Object.entries(normalized).sort((a, b) => b[1] - a[1]);
+  const totalWeight = entries.reduce((sum, [, weight]) => sum + weight, 0);
+  if (totalWeight <= 0) return [];
+
+  const languages: Language[] = entries.slice(0, TOP_LANGUAGES).map(([name, weight]) => ({
+    name,
+    count: Math.max(activity.repos.filter(r => r.language === name || (r.languages && r.languages[name] > 0)).length, 1),
+    percentage: Math.round((weight / totalWeight) * 100),
+    color: LANGUAGE_COLORS[name] || "#A3A3A3"
+  }));
+
+  const rest = entries.slice(TOP_LANGUAGES);
+  const otherPercentage = 100 - languages.reduce((sum, l) => sum + l.percentage, 0);
+  if (rest.length > 0 && otherPercentage > 0) {
+    languages.push({ name: "Other", count: rest.length, percentage: otherPercentage, color: "#6B7280", isOther: true });
+  } else if (otherPercentage !== 0) {
+    languages[0].percentage += otherPercentage;
+  }
+
+  return languages;
+};
+
+const buildLanguages = (activity: ProviderActivity, period: StoryPeriod): Language[] => {
+  if (activity.languageWeights) {
+    const weighted = buildWeightedLanguages(activity, activity.languageWeights);
+    if (weighted.length > 0) return weighted;
+  }
+
+  // No byte counts from this forge: score each repo's primary language instead
+  const scores = getTopLanguages(calculateLanguageScores(activity.repos.map(toScoringRepo), period), 3);
+  const totalWeight = scores.reduce((sum, l) => sum + l.weight, 0);
+  const languages: Language[] = scores.map(lang => ({
+    name: lang.name,
+    count: lang.repoCount,
+    percentage: Math.round(totalWeight > 0 ? (lang.weight / totalWeight) * 100 : 0),
+    color: LANGUAGE_COLORS[lang.name] || "#A3A3A3"
+  }));
+
+  if (languages.length > 0) {
+    const sum = languages.reduce((s, l) => s + l.percentage, 0);
+    if (sum !== 100 && sum > 0) {
+      languages[0].percentage += (100 - sum);
+    }
+  }
+
+  if (languages.length === 0) {
+    languages.push({ name: "Polyglot", count: 1, percentage: 100, color: "#FFFFFF" });
+  }
+
+  return languages;
+};
+
+// One entry per elapsed day of the period, so quiet days show up in charts and break streaks
+export const fillCalendar = (calendar: { date: string; count: number }[], period: StoryPeriod): { date: string; count: number }[] => {
+  const counts: Record<string, number> = {};
+  // Authors east of UTC can already be on tomorrow's date
+  let lastDay = toISODate(new Date());
+  calendar.forEach(day => {
+    counts[day.date] = (counts[day.date] || 0) + (day.count || 0);
+    if (day.date > lastDay && day.date <= period.end) lastDay = day.date;
+  });
+  return getElapsedPeriodDays(period, new Date(`${lastDay}T00:00:00Z`)).map(date => ({ date, count: counts[date] || 0 }));
+};
+
+// The one place raw activity becomes a story, so every provider computes stats the same way
+export const buildStory = (activity: ProviderActivity, period: StoryPeriod): GitStoryData => {
+  // A. Calendar: velocity, weekdays and streak
+  const calendar = fillCalendar(activity.calendar, period);
+  const velocityData: { date: string; commits: number; isoDate: string }[] = [];
+  const weekdayStats = [0, 0, 0, 0, 0, 0, 0];
+  let totalContributions = 0;
+
+  calendar.forEach(day => {
+    const dateObj = new Date(`${day.date}T00:00:00Z`);
+    totalContributions += day.count;
+    velocityData.push({
+      date: dateObj.toLocaleDateString('en-US', { month: 'short', day: 'numeric', timeZone: 'UTC' }),
+      commits: day.count,
+      isoDate: day.date
+    });
+
+    if (day.count > 0) {
+      weekdayStats[dateObj.getUTCDay()] += day.count;
+    }
+  });
+
+  const calendarStats = calculateCalendarStats(calendar);
+
+  const busiestDay = DAYS[weekdayStats.indexOf(Math.max(...weekdayStats))];
+
+  // The calendar stands in for commits on forges that don't count them separately
+  const totalCommits = activity.commitCount ?? totalContributions;
+  const contributionBreakdown: ContributionBreakdown = {
+    commits: totalCommits,
+    prs: activity.prs,
+    issues: activity.issues,
+    reviews: activity.reviews,
+    ...((activity.restrictedContributions || 0) > 0 && { private: activity.restrictedContributions }),
+    ...(activity.issueRecords && { issueStats: calculateIssueStats(activity.issueRecords, activity.issuesClosedInOwnRepos ?? null) }),
+  };
+
+  // B. Languages and repositories
+  const repos = activity.repos.map(repo => ({ ...repo, language: normalizeLanguageName(repo.language) }));
+  const topLanguages = buildLanguages({ ...activity, repos }, period);
+  const contributedRepos = (activity.contributedRepos || []).map(repo => ({ ...repo, language: normalizeLanguageName(repo.language) }));
+  const topRepos = rankRepositories([...repos, ...contributedRepos], period).slice(0, 5).map(repo => toRepository(repo, !!activity.showRepoCommits));
+  const topRepo = topRepos[0] || EMPTY_REPO;
+
+  // C. Productivity
+  const productivity = calculateProductivity(activity.hourCounts, activity.hourTimeZone, !!activity.hoursPartial);
+
+  // D. Community Stats
+  const communityStats: CommunityStats = {
+    followers: activity.followers,
+    following: activity.following,
+    publicRepos: activity.publicRepos,
+    totalStars: repos.reduce((sum, r) => sum + r.stars, 0),
+    ...(activity.stars && { starGrowth: calculateStarGrowth(activity.stars, period, !!activity.starsPartial) }),
+  };
+
+  const collaborators = calculateCollaborators(activity.username, {
+    pullRequests: activity.pullRequests,
+    reviews: activity.reviewRecords,
+    coAuthors: activity.coAuthors,
+  });
+
+  // E. Archetype
+  const archetype = calculateArchetype(contributionBreakdown, communityStats, totalCommits, productivity, weekdayStats);
+
+  return {
+    username: activity.username,
+    avatarUrl: activity.avatarUrl,
+    year: getPeriodYear(period),
+    period,
+    totalCommits,
+    totalContributions,
+    longestStreak: calendarStats.longestStreak?.days || 0,
+    busiestDay,
+    calendarStats,
+    ...(activity.pullRequests && { pullRequests: calculatePullRequestStats(activity.pullRequests) }),
+    ...(activity.reviewRecords && { reviews: calculateReviewStats(activity.reviewRecords) }),
+    ...(collaborators.length > 0 && { collaborators }),
+    ...((activity.guestRepos || []).length > 0 && { guestRepos: rankGuestRepos(activity.guestRepos || []) }),
+    ...(activity.releases && { shipping: calculateShippingStats(activity.releases, activity.tags || [], period) }),
+    ...(activity.workflowRuns && { pipeline: calculatePipelineStats(activity.workflowRuns, activity.workflowRunCount) }),
+    ...((activity.commitMessages || []).length > 0 && { commitMessages: analyzeCommitMessages(activity.commitMessages || []) }),
+    topLanguages,
+    topRepo,
+    topRepos,
+    velocityData,
+    weekdayStats,
+    productivity,
+    archetype,
+    contributionBreakdown,
+    community: communityStats
+  };
+};
+
+export const fetchStory = async (provider: StoryProvider, request: StoryRequest, period: StoryPeriod): Promise<GitStoryData> =>
+  buildStory(await provider.fetchActivity(request, period), period);
@@ -0,0 +1,17 @@
+import { githubProvider } from "./githubService";
+import { gitlabProvider } from "./gitlabService";
+import { bitbucketProvider } from "./bitbucketService";
+import { giteaProvider } from "./giteaService";
+import { gitLogProvider } from "./gitLogService";
+import { StoryProvider } from "./storyPipeline";
+
+export type StoryProviderId = 'github' | 'gitlab' | 'bitbucket' | 'gitea' | 'local';
+
+// Adding a forge means writing a StoryProvider and registering it here
+export const STORY_PROVIDERS: Record<StoryProviderId, StoryProvider> = {
+  github: githubProvider,
+  gitlab: gitlabProvider,
+  bitbucket: bitbucketProvider,
+  gitea: giteaProvider,
+  local: gitLogProvider,
+};
@@ -0,0 +1,162 @@
+import { ContributionBreakdown, StoryPeriod, TeamMember, TeamStoryData } from "../types";
+import { fetchContributionData, makeGitHubUrl, toActivityRepository } from "./githubService";
+import { getDefaultPeriod } from "./period";
+import { buildStory, fillCalendar } from "./storyPipeline";
+import { calculateCalendarStats } from "./scoringAlgorithms";
+
+// Each member costs at least one request, so keep big orgs within the hourly rate limit
+const MAX_TEAM_MEMBERS = 30;
+const MEMBER_BATCH_SIZE = 5;
+
+export type TeamTarget = { org: string } | { members: string[] };
+
+// "acme" is an organization, "alice, bob" is a hand-picked list
+export const parseTeamTarget = (input: string): TeamTarget => {
+  const names = input.split(/[\s,]+/).map(n => n.trim().replace(/^@/, '')).filter(Boolean);
+  if (names.length === 0) {
+    throw new Error("Enter an organization or a comma-separated list of usernames.");
+  }
+  return names.length === 1 ? { org: names[0] } : { members: Array.from(new Set(names)) };
+};
+
+const fetchJson = async (endpoint: string, headers: HeadersInit): Promise<any> => {
+  const res = await fetch(makeGitHubUrl(endpoint), { headers });
+  return res.ok ? res.json() : null;
+};
+
+export const fetchTeamStory = async (target: TeamTarget, token?: string, period: StoryPeriod = getDefaultPeriod()): Promise<TeamStoryData> => {
+  const headers: HeadersInit = {
+    'Accept': 'application/vnd.github.v3+json',
+  };
+  if (token) {
+    headers['Authorization'] = `Bearer ${token}`;
+  }
+
+  try {
+    let name: string;
+    let avatarUrl = "";
+    let followers = 0;
+    let memberLogins: { login: string; avatar_url?: string }[] = [];
+    let repos: any[] = [];
+
+    if ('org' in target) {
+      const orgRes = await fetch(makeGitHubUrl(`/orgs/${target.org}`), { headers });
+      if (orgRes.status === 404) {
+        throw new Error(`Organization "${target.org}" not found. For a group of people, separate usernames with commas.`);
+      }
+      if (orgRes.status === 403) {
+        throw new Error("API Rate Limit Exceeded. Add a GitHub token for 5000 requests/hour.");
+      }
+      if (!orgRes.ok) {
+        throw new Error(`Failed to fetch organization data. (Status: ${orgRes.status})`);
+      }
+      const org = await orgRes.json();
+
+      name = org.login;
+      avatarUrl = org.avatar_url;
+      followers = org.followers || 0;
+
+      const [members, orgRepos] = await Promise.all([
+        fetchJson(`/orgs/${target.org}/members?per_page=100`, headers),
+        fetchJson(`/orgs/${target.org}/repos?per_page=100&sort=pushed&type=all`, headers),
+      ]);
+      memberLogins = Array.isArray(members) ? members : [];
+      repos = Array.isArray(orgRepos) ? orgRepos : [];
+
+      if (memberLogins.length === 0) {
+        throw new Error(`No public members found for "${target.org}". Sign in as an org member or list usernames instead.`);
+      }
+    } else {
+      name = target.members.join(", ");
+      memberLogins = target.members.map(login => ({ login }));
+
+      const memberRepos = await Promise.all(target.members.slice(0, MAX_TEAM_MEMBERS).map(login =>
+        fetchJson(`/users/${login}/repos?per_page=100&sort=pushed&type=owner`, headers)
+      ));
+      repos = memberRepos.flatMap(r => Array.isArray(r) ? r : []);
+    }
+
+    // Collect each member's calendar in small batches
+    const members: (TeamMember & { calendar: { date: string; count: number }[]; breakdown: ContributionBreakdown; hasCommitCount: boolean })[] = [];
+    const selected = memberLogins.slice(0, MAX_TEAM_MEMBERS);
+
+    for (let i = 0; i < selected.length; i += MEMBER_BATCH_SIZE) {
+      const batch = await Promise.all(selected.slice(i, i + MEMBER_BATCH_SIZE).map(async member => {
+        const [contrib, profile] = await Promise.all([
+          fetchContributionData(member.login, period, token),
+          member.avatar_url ? Promise.resolve(null) : fetchJson(`/users/${member.login}`, headers),
+        ]);
+
+        if (!member.avatar_url && !profile) return null;
+
+        const calendar = fillCalendar(contrib.contributions || [], period);
+        const contributions = calendar.reduce((sum, day) => sum + day.count, 0);
+
+        return {
+          username: profile?.login || member.login,
+          avatarUrl: member.avatar_url || profile?.avatar_url || "",
+          contributions,
+          longestStreak: calculateCalendarStats(calendar).longestStreak?.days || 0,
+          calendar,
+          // Without GraphQL only the calendar total is known, which also counts PRs, issues and reviews
+          hasCommitCount: contrib.commitCount !== undefined,
+          breakdown: {
+            commits: contrib.commitCount ?? contributions,
+            prs: Math.max(contrib.prCount || 0, 0),
+            issues: Math.max(contrib.issueCount || 0, 0),
+            reviews: Math.max(contrib.reviewCount || 0, 0),
+          },
+        };
+      }));
+
+      batch.forEach(member => { if (member) members.push(member); });
+    }
+
+    if (members.length === 0) {
+      throw new Error("None of those users could be found. Check the spelling and try again.");
+    }
+
+    members.sort((a, b) => b.contributions - a.contributions);
+    if (!avatarUrl) avatarUrl = members[0].avatarUrl;
+
+    // Merge calendars into one team calendar
+    const dailyTotals = new Map<string, number>();
+    members.forEach(member => member.calendar.forEach(day => {
+      dailyTotals.set(day.date, (dailyTotals.get(day.date) || 0) + (day.count || 0));
+    }));
+
+    const breakdown: ContributionBreakdown = members.reduce((sum, m) => ({
+      commits: sum.commits + m.breakdown.commits,
+      prs: sum.prs + m.breakdown.prs,
+      issues: sum.issues + m.breakdown.issues,
+      reviews: sum.reviews + m.breakdown.reviews,
+    }), { commits: 0, prs: 0, issues: 0, reviews: 0 });
+
+    // There is no team-wide event feed, so productivity falls back to the default peak
+    const team = buildStory({
+      username: name,
+      avatarUrl,
+      calendar: Array.from(dailyTotals, ([date, count]) => ({ date, count })),
+      hourCounts: {},
+      prs: breakdown.prs,
+      issues: breakdown.issues,
+      reviews: breakdown.reviews,
+      ...(members.every(m => m.hasCommitCount) && { commitCount: breakdown.commits }),
+      repos: repos.map(toActivityRepository),
+      followers,
+      following: 0,
+      publicRepos: repos.length,
+    }, period);
+
+    return {
+      name,
+      isOrganization: 'org' in target,
+      team,
+      members: members.map(({ username, avatarUrl, contributions, longestStreak }) => ({ username, avatarUrl, contributions, longestStreak })),
+    };
+
+  } catch (error) {
+    console.error("Error generating team story:", error);
+    throw error;
+  }
+};
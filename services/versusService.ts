@@ -0,0 +1,40 @@
+import { GitStoryData, VersusStoryData } from "../types";
+
+export type VersusSide = 'left' | 'right' | 'tie';
+
+export const compareStat = (left: number, right: number): VersusSide =>
+  left > right ? 'left' : right > left ? 'right' : 'tie';
+
+// Both developers are fetched with the same provider and period so the numbers line up
+export const fetchVersusStory = async (
+  fetchStory: (username: string) => Promise<GitStoryData>,
+  leftUsername: string,
+  rightUsername: string
+): Promise<VersusStoryData> => {
+  if (leftUsername.trim().toLowerCase() === rightUsername.trim().toLowerCase()) {
+    throw new Error("Pick two different usernames for a head-to-head.");
+  }
+
+  // One after the other, so the two stories' searches don't burst past the search rate limit together
+  const left = await fetchStory(leftUsername.trim());
+  const right = await fetchStory(rightUsername.trim());
+
+  return { left, right };
+};
+
+// Headline stats used by the split poster; the side that wins more of them takes the title
+export const getVersusScoreboard = (data: VersusStoryData) => {
+  const { left, right } = data;
+  const stats = [
+    { label: 'Commits', left: left.totalCommits, right: right.totalCommits },
+    { label: 'Streak', left: left.longestStreak, right: right.longestStreak },
+    { label: 'PRs', left: left.contributionBreakdown.prs, right: right.contributionBreakdown.prs },
+    { label: 'Reviews', left: left.contributionBreakdown.reviews, right: right.contributionBreakdown.reviews },
+    { label: 'Stars', left: left.community.totalStars, right: right.community.totalStars },
+  ].map(stat => ({ ...stat, winner: compareStat(stat.left, stat.right) }));
+
+  const leftWins = stats.filter(s => s.winner === 'left').length;
+  const rightWins = stats.filter(s => s.winner === 'right').length;
+
+  return { stats, leftWins, rightWins, winner: compareStat(leftWins, rightWins) };
+};
@@ -3,6 +3,7 @@ export interface Language {
   color: string;
   percentage: number;
   count: number; // Used for calculation
+  isOther?: boolean; // Everything outside the top languages, grouped together
 }
 
 export interface Repository {
@@ -12,11 +13,53 @@ export interface Repository {
   language: string;
   topics: string[]; // Added topics for AI detection
   url: string;
+  commits?: number; // The user's own commits in the period, when the source knows them
 }
 
 export interface ProductivityData {
   timeOfDay: string; // "Morning", "Afternoon", "Evening", "Late Night"
   peakHour: number; // 0-23
+  hourlyCounts?: number[]; // Activity per hour of day, 24 entries
+  timeZone?: string; // IANA zone the hours are in; unset means each commit's own author time
+  isPartial?: boolean; // Hours come from a sample of the period, not all of it
+}
+
+export interface DaySpan {
+  start: string; // YYYY-MM-DD
+  end: string; // YYYY-MM-DD, inclusive
+  days: number;
+}
+
+export interface CalendarStats {
+  longestStreak: DaySpan | null;
+  currentStreak: number; // Streak still running on the last day of the period
+  longestBreak: DaySpan | null; // Longest run of quiet days between two active days
+  bestDay: { date: string; count: number } | null;
+  bestWeek: { start: string; count: number } | null; // Weeks start on Sunday
+  bestMonth: { month: string; count: number } | null; // YYYY-MM
+  monthlyTotals: { month: string; count: number }[]; // Every month of the period so far, oldest first
+  activeDays: number;
+  averagePerActiveDay: number;
+}
+
+// One issue the user opened in the period
+export interface IssueRecord {
+  title: string;
+  url: string;
+  repo: string; // owner/name
+  state: 'OPEN' | 'CLOSED';
+  createdAt: string;
+  closedAt: string | null;
+  labels: string[];
+}
+
+export interface IssueStats {
+  opened: number;
+  closed: number; // Of the issues opened in the period, closed by anyone
+  open: number;
+  closedInOwnRepos: number | null; // Issues (anyone's) the user closed in their own repos, null when unknown
+  medianHoursToClose: number | null;
+  topLabels: { name: string; count: number }[];
 }
 
 export interface ContributionBreakdown {
@@ -24,26 +67,177 @@ export interface ContributionBreakdown {
   prs: number;
   issues: number;
   reviews: number;
+  private?: number; // Restricted contributions, private work of unknown kind
+  issueStats?: IssueStats; // Only when the provider could list the issues themselves
+}
+
+export interface Person {
+  login: string;
+  avatarUrl: string | null;
+}
+
+// One pull request the user opened in the period
+export interface PullRequestRecord {
+  title: string;
+  url: string;
+  repo: string; // owner/name
+  state: 'OPEN' | 'MERGED' | 'CLOSED'; // CLOSED means closed without merging
+  createdAt: string;
+  mergedAt: string | null;
+  additions: number;
+  deletions: number;
+  reviewers?: Person[]; // Everyone who reviewed it, the author excluded
+}
+
+export interface PullRequestStats {
+  opened: number;
+  merged: number;
+  closed: number; // Closed without merging
+  open: number;
+  mergeRate: number; // Percentage of opened PRs that were merged
+  medianHoursToMerge: number | null;
+  largest: PullRequestRecord | null; // By additions + deletions
+  topRepos: { repo: string; count: number }[]; // Repos with the most PRs opened, highest first
+}
+
+// One review the user submitted in the period
+export interface ReviewRecord {
+  state: 'APPROVED' | 'CHANGES_REQUESTED' | 'COMMENTED' | 'DISMISSED' | 'PENDING';
+  submittedAt: string;
+  comments: number; // Inline comments left with the review
+  repo: string; // owner/name
+  pullRequestUrl: string;
+  pullRequestAuthor: string | null; // null for deleted accounts
+  pullRequestAuthorAvatarUrl?: string | null;
+  requestedAt: string | null; // When the user (or their team) was asked to review, if they were
+}
+
+export interface ReviewStats {
+  total: number;
+  approved: number;
+  changesRequested: number;
+  commented: number;
+  comments: number;
+  pullRequestsReviewed: number;
+  medianHoursToFirstReview: number | null; // From review request to the user's first review on that PR
+  topRepos: { repo: string; count: number }[];
+  topAuthors: { login: string; count: number }[]; // Whose PRs the user reviewed most
+}
+
+// Someone the user worked with, from reviews in both directions and Co-authored-by trailers
+export interface Collaborator {
+  login: string | null; // null for co-authors whose email doesn't identify an account
+  name: string;
+  avatarUrl: string | null;
+  reviewedByYou: number; // Their PRs the user reviewed
+  reviewedYou: number; // The user's PRs they reviewed
+  coAuthored: number; // Commits shared through Co-authored-by trailers
+  weight: number; // All of the above together
+}
+
+// Someone else's repository where the user's PRs were merged in the period
+export interface GuestRepo {
+  name: string; // owner/name
+  url: string;
+  description: string | null;
+  stars: number;
+  language: string | null;
+  ownerAvatarUrl: string | null;
+  mergedPullRequests: number;
+}
+
+// One published release in a repo the user owns or contributed to
+export interface ReleaseRecord {
+  repo: string; // owner/name
+  tag: string;
+  name: string;
+  url: string;
+  publishedAt: string;
+  isPrerelease: boolean;
+  assets: { name: string; downloads: number }[];
+}
+
+export interface ShippingStats {
+  releases: number;
+  prereleases: number; // Included in releases
+  tags: number; // Tags pushed without a release
+  repos: { repo: string; count: number }[]; // Releases and tags per repo, most first
+  timeline: { date: string; repo: string; tag: string; isRelease: boolean }[]; // Oldest first
+  topAssets: { repo: string; tag: string; name: string; downloads: number }[]; // Lifetime downloads
+}
+
+// One CI workflow run the user triggered
+export interface WorkflowRunRecord {
+  repo: string; // owner/name
+  workflow: string;
+  conclusion: string | null; // "success", "failure", "cancelled", ...; null while running
+  startedAt: string;
+  updatedAt: string;
+}
+
+export interface PipelineStats {
+  runs: number; // Every run triggered in the period, including ones past the sample
+  successRate: number; // Percentage of finished runs that passed
+  minutes: number; // Wall-clock run time, which is close to but not exactly billed minutes
+  mostFailed: { workflow: string; repo: string; failures: number } | null;
+  repos: { repo: string; count: number }[];
+  isSampled: boolean; // Rates and minutes come from the most recent runs only
+}
+
+export interface CommitMessageStats {
+  total: number; // Commits analyzed, merges excluded
+  averageLength: number; // Characters in the subject line
+  conventionalShare: number; // Percentage written as Conventional Commits
+  types: { type: string; count: number }[]; // feat, fix, chore, ... most used first
+  topWords: { word: string; count: number }[];
+  topEmoji: { emoji: string; count: number }[]; // Unicode emoji or :shortcodes:
+  lowEffortCount: number; // "wip", "fix typo", "update" and friends
+  lowEffortShare: number; // Percentage of total
+}
+
+// Stars the user's repos gained during the period, from starred-at timestamps
+export interface StarGrowth {
+  total: number;
+  byRepo: { repo: string; count: number }[]; // Fastest rising first
+  byMonth: { month: string; count: number }[]; // YYYY-MM, every month of the period so far
+  isPartial: boolean; // Some repos had too many stars to page through, so this is a lower bound
 }
 
 export interface CommunityStats {
   followers: number;
   following: number;
-  totalStars: number;
+  totalStars: number; // Lifetime stars across the user's repos
   publicRepos: number;
+  starGrowth?: StarGrowth;
+}
+
+export interface StoryPeriod {
+  start: string; // ISO date (YYYY-MM-DD), inclusive
+  end: string; // ISO date (YYYY-MM-DD), inclusive
+  label: string; // e.g. "2025", "Q3 2025", "Sprint 42"
 }
 
 export interface GitStoryData {
   username: string;
   avatarUrl: string;
-  year: number;
+  year: number; // Calendar year the period ends in
+  period: StoryPeriod;
   totalCommits: number;
+  totalContributions: number; // Everything on the calendar: commits, PRs, issues, reviews and private work
   longestStreak: number;
   busiestDay: string; // e.g., "Wednesdays"
+  calendarStats?: CalendarStats;
+  pullRequests?: PullRequestStats; // Only when the provider could list the PRs themselves
+  reviews?: ReviewStats; // Only when the provider could list the reviews themselves
+  collaborators?: Collaborator[]; // Strongest ties first
+  guestRepos?: GuestRepo[]; // Upstream projects the user landed PRs in, best first
+  shipping?: ShippingStats; // Only when the provider could list releases
+  pipeline?: PipelineStats; // Only when the provider could list CI runs
+  commitMessages?: CommitMessageStats; // Only when the provider could read commit messages
   topLanguages: Language[];
   topRepo: Repository;
   topRepos: Repository[]; // Top 5 repos of the year
-  velocityData: { date: string; commits: number }[]; // For chart
+  velocityData: { date: string; commits: number; isoDate?: string }[]; // For chart, one entry per day
   weekdayStats: number[]; // Array of 7 numbers (Sun-Sat)
   productivity: ProductivityData;
   archetype: string; // The calculated persona (e.g., "The Architect")
@@ -51,6 +245,118 @@ export interface GitStoryData {
   community: CommunityStats;
 }
 
+// A repository in provider-neutral form, mapped from whatever shape the forge's API returns
+export interface ActivityRepository {
+  name: string;
+  description: string | null;
+  url: string;
+  language: string | null;
+  stars: number;
+  forks: number;
+  watchers: number;
+  openIssues: number;
+  size: number; // KB, 0 when unknown
+  topics: string[];
+  isFork: boolean;
+  isArchived: boolean;
+  createdAt: string | null;
+  pushedAt: string | null;
+  languages?: Record<string, number>; // Bytes (or shares) per language, when the forge reports them
+  commits?: number; // The user's own commits in the period, when the provider counts them
+  pullRequests?: number; // The user's pull requests in the period, when the provider counts them
+}
+
+// One `git log` output, see GIT_LOG_COMMAND in services/gitLogService.ts
+export interface GitLogSource {
+  name: string; // Repository name used when the log has no "### repo:" header (usually the file name)
+  content: string;
+}
+
+// What the landing page knows when asking a provider for a story
+export interface StoryRequest {
+  username: string;
+  token?: string;
+  instanceUrl?: string; // Self-hosted GitLab or Gitea-compatible instance
+  logs?: GitLogSource[]; // Local git history instead of an API
+  timeZone?: string; // IANA zone for hour-of-day stats; unset keeps each commit's own offset
+}
+
+// Everything a provider collects for one user and period, before any scoring
+export interface ProviderActivity {
+  username: string;
+  avatarUrl: string;
+  calendar: { date: string; count: number }[]; // Daily contributions (YYYY-MM-DD), missing days count as zero
+  hourCounts: Record<number, number>; // Activity per hour of day (0-23)
+  hourTimeZone?: string; // Zone hourCounts were read in; unset means each commit's author time
+  hoursPartial?: boolean; // hourCounts only cover part of the period, e.g. search stopped early
+  prs: number;
+  issues: number;
+  reviews: number;
+  repos: ActivityRepository[]; // The user's own repositories
+  contributedRepos?: ActivityRepository[]; // Other repos the user worked in; ranked, but their stars aren't the user's
+  commitCount?: number; // Commits alone, when the calendar also counts PRs, issues and reviews
+  restrictedContributions?: number; // Private contributions reported only as a count
+  pullRequests?: PullRequestRecord[]; // Every PR opened in the period, when the forge can list them
+  reviewRecords?: ReviewRecord[]; // Every review submitted in the period; `reviews` stays the headline count
+  issueRecords?: IssueRecord[]; // Every issue opened in the period; `issues` stays the headline count
+  issuesClosedInOwnRepos?: number;
+  coAuthors?: { name: string; email: string }[]; // One entry per Co-authored-by trailer on the user's commits
+  guestRepos?: GuestRepo[]; // Unranked; buildStory orders them
+  stars?: { repo: string; starredAt: string }[]; // Stars the user's repos received in the period
+  starsPartial?: boolean; // Not every repo's stargazers could be read back to the period start
+  releases?: ReleaseRecord[]; // Published in the period
+  tags?: { repo: string; name: string; date: string }[]; // Created in the period, with or without a release
+  workflowRuns?: WorkflowRunRecord[]; // Triggered by the user in the period, possibly a sample
+  workflowRunCount?: number; // All runs in the period, when more than were sampled
+  commitMessages?: string[]; // The user's commit messages in the period, full or subject only
+  followers: number;
+  following: number;
+  publicRepos: number;
+  languageWeights?: Record<string, number>; // Overrides repo-based language scoring, e.g. bytes or lines changed
+  showRepoCommits?: boolean; // Repo commit counts are complete, so slides show them instead of stars
+}
+
+export interface LanguageShift {
+  name: string;
+  color: string;
+  previousPercentage: number; // 0 when the language is new this period
+  currentPercentage: number; // 0 when the language was dropped
+}
+
+// Two consecutive periods of the same user, plus the deltas the comparison deck renders
+export interface ComparisonStoryData {
+  current: GitStoryData;
+  previous: GitStoryData;
+  commitDelta: number;
+  commitGrowth: number | null; // Percentage change, null when the previous period was empty
+  streakDelta: number;
+  languageShifts: LanguageShift[];
+  newRepos: Repository[]; // In the current top repos but not the previous ones
+  droppedRepos: Repository[]; // In the previous top repos but not the current ones
+  archetypeChanged: boolean;
+}
+
+// Two developers over the same period, rendered side by side
+export interface VersusStoryData {
+  left: GitStoryData;
+  right: GitStoryData;
+}
+
+export interface TeamMember {
+  username: string;
+  avatarUrl: string;
+  contributions: number;
+  longestStreak: number;
+}
+
+// An organization or hand-picked group; `team` aggregates everyone so the solo slides can render it
+export interface TeamStoryData {
+  name: string;
+  isOrganization: boolean;
+  team: GitStoryData;
+  members: TeamMember[]; // Sorted by contributions, highest first
+}
+
 export enum SlideType {
   TITLE = 0,
   VELOCITY = 1,
@@ -63,4 +369,41 @@ export enum SlideType {
   TOP_REPOS = 8, // New slide for top 5 repos
   REPO = 9,
   POSTER = 10,
-}
\ No newline at end of file
+  CONSISTENCY = 11,
+  MONTHLY = 12,
+  PULL_REQUESTS = 13,
+  REVIEWS = 14,
+  ISSUES = 15,
+  CAST = 16,
+  GUEST_STAR = 17,
+  SHIPPED = 18,
+  PIPELINE = 19,
+  WORDS = 20,
+}
+
+export enum ComparisonSlideType {
+  TITLE = 0,
+  GROWTH = 1,
+  LANGUAGE_SHIFT = 2,
+  REPO_SHIFT = 3,
+  ARCHETYPE_SHIFT = 4,
+}
+
+export enum VersusSlideType {
+  TITLE = 0,
+  VELOCITY = 1,
+  ROUTINE = 2,
+  LANGUAGES = 3,
+  COMMUNITY = 4,
+  POSTER = 5,
+}
+
+export enum TeamSlideType {
+  TITLE = 0,
+  VELOCITY = 1,
+  GRID = 2,
+  LANGUAGES = 3,
+  TOP_REPOS = 4,
+  CONTRIBUTORS = 5,
+  POSTER = 6,
+}